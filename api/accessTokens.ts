@@ -0,0 +1,88 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { insertAccessTokenSchema } from "./schema";
+import { isAuthenticated } from "./auth";
+import { validate, idParams } from "./validation";
+import { ValidationError, NotFoundError } from "./errors";
+import { generateToken, hashToken } from "./tokens";
+import { accessTokenSchema, successSchema } from "./responses";
+
+const maxAccessTokens = 20;
+
+// Authorization ヘッダーやログで見分けやすいように接頭辞を付ける
+const tokenPrefix = "pat_";
+
+// 表示用に残す先頭部分（pat_ + 8 文字）
+const visiblePrefixLength = tokenPrefix.length + 8;
+
+const createdAccessTokenSchema = accessTokenSchema.extend({
+  // 作成時にだけ返す。以降は取得できない
+  token: z.string(),
+});
+
+// スクリプトからの投稿用のパーソナルアクセストークン。
+// 作成・一覧・削除はセッションからだけ（トークンでトークンは作れない）
+export function registerAccessTokenRoutes(app: Express) {
+  app.get(
+    "/api/user/tokens",
+    isAuthenticated,
+    validate({
+      summary: "Your personal access tokens",
+      response: z.array(accessTokenSchema),
+    }),
+    async (req: any, res) => {
+      res.json(await storage.getAccessTokens(req.user.claims.sub));
+    }
+  );
+
+  app.post(
+    "/api/user/tokens",
+    isAuthenticated,
+    validate({
+      summary: "Create a personal access token; the token is shown only once",
+      body: insertAccessTokenSchema,
+      response: createdAccessTokenSchema,
+      status: 201,
+    }),
+    async (req: any, res) => {
+      const userId = req.user.claims.sub;
+
+      const existing = await storage.getAccessTokens(userId);
+      if (existing.length >= maxAccessTokens) {
+        throw new ValidationError(
+          `You can have at most ${maxAccessTokens} access tokens`
+        );
+      }
+
+      const token = generateToken(tokenPrefix);
+      const created = await storage.createAccessToken(
+        userId,
+        { ...req.body, scopes: Array.from(new Set(req.body.scopes)) },
+        hashToken(token),
+        token.slice(0, visiblePrefixLength)
+      );
+      res.status(201).json({ ...created, token });
+    }
+  );
+
+  app.delete(
+    "/api/user/tokens/:id",
+    isAuthenticated,
+    validate({
+      summary: "Revoke a personal access token",
+      params: idParams,
+      response: successSchema,
+    }),
+    async (req: any, res) => {
+      const deleted = await storage.deleteAccessToken(
+        req.params.id,
+        req.user.claims.sub
+      );
+      if (!deleted) {
+        throw new NotFoundError("Access token not found");
+      }
+      res.json({ success: true });
+    }
+  );
+}
@@ -0,0 +1,66 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import {
+  isAuthenticated,
+  sessionCookieName,
+  sessionCookieOptions,
+} from "./auth";
+import { logger } from "./logger";
+import { validate } from "./validation";
+import { NotFoundError } from "./errors";
+import { userExportSchema } from "./responses";
+
+const deletedUserSchema = z.object({
+  // 画像ホスト（Cloudinary など）に残っている、削除が必要な画像
+  imageUrls: z.array(z.string()),
+});
+
+// データの持ち出しと退会。どちらもセッションからだけ（アクセストークンでは呼べない）
+export function registerAccountRoutes(app: Express) {
+  app.get(
+    "/api/user/export",
+    isAuthenticated,
+    validate({
+      summary: "Download all of your data as JSON",
+      response: userExportSchema,
+    }),
+    async (req: any, res) => {
+      const data = await storage.getUserExport(req.user.claims.sub);
+      if (!data) {
+        throw new NotFoundError("User not found");
+      }
+
+      const exportedAt = new Date();
+      res.attachment(`export-${exportedAt.toISOString().slice(0, 10)}.json`);
+      res.json({ exportedAt, ...data });
+    }
+  );
+
+  // 投稿・お気に入り・コメントなどは onDelete: cascade でまとめて消える
+  app.delete(
+    "/api/user",
+    isAuthenticated,
+    validate({
+      summary: "Delete your account and everything you posted",
+      response: deletedUserSchema,
+    }),
+    async (req: any, res) => {
+      const userId = req.user.claims.sub;
+
+      const deleted = await storage.deleteUser(userId);
+      if (!deleted) {
+        throw new NotFoundError("User not found");
+      }
+      // 画像ホストからの削除は運用側で行うので、URL をログにも残す
+      logger.info("User deleted", { userId, imageUrls: deleted.imageUrls });
+
+      // このリクエストのセッションも破棄する
+      await new Promise<void>((resolve) =>
+        req.session ? req.session.destroy(() => resolve()) : resolve()
+      );
+      res.clearCookie(sessionCookieName, sessionCookieOptions);
+      res.json(deleted);
+    }
+  );
+}
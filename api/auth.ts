@@ -4,12 +4,24 @@ import session from "express-session";
 import connectPgSimple from "connect-pg-simple";
 import passport from "passport";
 import { Strategy as GoogleStrategy } from "passport-google-oauth20";
-import { storage } from "./storage";
-import type { UpsertUser } from "./schema"; // schema に定義済みの型
-import { pool } from "./db";
+import { storage, storageDriver } from "./storage";
+import type { UpsertUser, User, UserRole, TokenScope } from "./schema"; // schema に定義済みの型
+import { getPool } from "./db";
+import { validate, routeSpecOf } from "./validation";
+import { hashToken } from "./tokens";
+import { UnauthorizedError, ForbiddenError } from "./errors";
+import { userSchema, successSchema } from "./responses";
 
 const PgSession = connectPgSimple(session);
 
+// セッション Cookie の属性。clearCookie でも同じものを渡さないとブラウザが消さない
+export const sessionCookieName = "connect.sid";
+export const sessionCookieOptions = {
+  httpOnly: true,
+  sameSite: process.env.NODE_ENV === "production" ? "none" : "lax",
+  secure: process.env.NODE_ENV === "production",
+} as const;
+
 export async function setupAuth(app: Express) {
   // Session middleware (store in Postgres table 'sessions' to match your schema)
 
@@ -21,19 +33,22 @@ export async function setupAuth(app: Express) {
   app.use(
     session({
       proxy: true,
-      store: new PgSession({
-        pool: pool,
-        tableName: "sessions", // 既存スキーマに合わせる
-      }) as any,
+      // memory ドライバでは express-session 標準の MemoryStore を使う
+      store:
+        storageDriver === "database"
+          ? (new PgSession({
+              pool: getPool(),
+              tableName: "sessions", // 既存スキーマに合わせる
+            }) as any)
+          : undefined,
+      name: sessionCookieName,
       secret: process.env.SESSION_SECRET ?? "something",
       resave: false,
       saveUninitialized: false,
       cookie: {
         // 必要に応じて調整
         maxAge: 14 * 24 * 60 * 60 * 1000, // 14 days
-        httpOnly: true,
-        sameSite: process.env.NODE_ENV === "production" ? "none" : "lax",
-        secure: process.env.NODE_ENV === "production",
+        ...sessionCookieOptions,
       },
     })
   );
@@ -57,12 +72,56 @@ export async function setupAuth(app: Express) {
     }
   });
 
+  // Google の設定がなければ /api/auth/google* を登録しない
+  // （memory ドライバでのオフライン開発ではメール・パスワードのログインだけ使う）
+  if (process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET) {
+    setupGoogleAuth(
+      app,
+      process.env.GOOGLE_CLIENT_ID,
+      process.env.GOOGLE_CLIENT_SECRET
+    );
+  }
+
+  // ログアウト
+  app.post(
+    "/api/auth/logout",
+    validate({ summary: "Sign out", response: successSchema }),
+    (req: any, res) => {
+      req.logout((err: any) => {
+        req.session?.destroy(() => {
+          res.json({ success: true });
+        });
+      });
+    }
+  );
+
+  app.get(
+    "/api/auth/user",
+    isAuthenticated,
+    validate({
+      summary: "The signed-in user",
+      scope: "profile:read",
+      response: userSchema,
+    }),
+    async (req: any, res) => {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+      res.json(user);
+    }
+  );
+}
+
+function setupGoogleAuth(
+  app: Express,
+  clientID: string,
+  clientSecret: string
+) {
   // Google OAuth Strategy
   passport.use(
     new GoogleStrategy(
       {
-        clientID: process.env.GOOGLE_CLIENT_ID ?? "",
-        clientSecret: process.env.GOOGLE_CLIENT_SECRET ?? "",
+        clientID,
+        clientSecret,
         callbackURL: `${process.env.BACKEND_URL?.replace(
           /\/$/,
           ""
@@ -78,8 +137,14 @@ export async function setupAuth(app: Express) {
             profileImageUrl: profile.photos?.[0]?.value ?? "",
           };
           // storage.upsertUser は存在しなければ作成、あれば更新して user オブジェクトを返す想定
-          const user = await storage.upsertUser(upsert);
-          done(null, user);
+          // メールアドレスが同じならローカルログインのユーザーと同じ行になる
+          let user = await storage.upsertUser(upsert);
+          if (email && !user.emailVerifiedAt) {
+            // 未確認のまま他人が登録したパスワードでは入れないようにしてから確認済みにする
+            await storage.setPasswordHash(user.id, null);
+            user = (await storage.markEmailVerified(user.id)) ?? user;
+          }
+          done(null, await grantBootstrapAdmin(user));
         } catch (err) {
           done(err as Error | null, undefined);
         }
@@ -91,6 +156,7 @@ export async function setupAuth(app: Express) {
   // 認証開始
   app.get(
     "/api/auth/google",
+    validate({ summary: "Start Google sign-in", status: 302 }),
     passport.authenticate("google", {
       scope: ["profile", "email"],
       prompt: "select_account",
@@ -100,6 +166,10 @@ export async function setupAuth(app: Express) {
   // Google callback
   app.get(
     "/api/auth/google/callback",
+    validate({
+      summary: "Google sign-in callback; redirects to the frontend",
+      status: 302,
+    }),
     passport.authenticate("google", {
       failureRedirect: `${
         process.env.FRONTEND_URL ?? "/login"
@@ -110,35 +180,80 @@ export async function setupAuth(app: Express) {
       res.redirect(process.env.FRONTEND_URL ?? "/");
     }
   );
+}
 
-  // ログアウト
-  app.post("/api/auth/logout", (req: any, res) => {
-    req.logout((err: any) => {
-      req.session?.destroy(() => {
-        res.json({ success: true });
-      });
-    });
-  });
+// isAuthenticated ミドルウェアをエクスポート
+// セッションのほか Authorization: Bearer のアクセストークンも受け付ける
+export const isAuthenticated: RequestHandler = async (req: any, res, next) => {
+  const bearer = req.get("Authorization")?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  if (bearer) {
+    const match = await storage.authenticateAccessToken(hashToken(bearer));
+    if (!match) throw new UnauthorizedError("Invalid access token");
 
-  app.get("/api/auth/user", isAuthenticated, async (req: any, res) => {
-    try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      res.json(user);
-    } catch (error) {
-      console.error("Error fetching user:", error);
-      res.status(500).json({ message: "Failed to fetch user" });
+    // トークンで使えるのは validate() に scope を書いたルートだけ
+    const scope = requiredScopeOf(req);
+    if (!scope) {
+      throw new ForbiddenError("This endpoint does not accept access tokens");
+    }
+    if (!match.scopes.includes(scope)) {
+      throw new ForbiddenError(`This token does not have the ${scope} scope`);
     }
-  });
-}
 
-// isAuthenticated ミドルウェアをエクスポート
-export const isAuthenticated: RequestHandler = (req: any, res, next) => {
+    // セッションと同じ形で req.user を置く
+    req.user = { ...match.user, claims: { sub: match.user.id } };
+    req.tokenScopes = match.scopes;
+    return next();
+  }
+
   if (req.isAuthenticated && req.isAuthenticated()) {
     // 既存コードが req.user.claims.sub を期待しているため保証しておく
     if (!req.user.claims) req.user.claims = { sub: req.user.id };
     else if (!req.user.claims.sub) req.user.claims.sub = req.user.id;
     return next();
   }
-  res.status(401).json({ message: "Unauthorized" });
+  next(new UnauthorizedError());
 };
+
+// 最初の管理者は ADMIN_EMAILS で付与する。以降は管理画面からロールを変更する
+// メールアドレスを確認できたログイン（Google / 確認済みのローカル）でだけ呼ぶ
+export async function grantBootstrapAdmin(user: User): Promise<User> {
+  if (user.role === "admin" || !isBootstrapAdmin(user.email ?? "")) {
+    return user;
+  }
+  return (await storage.setUserRole(user.id, "admin", null)) ?? user;
+}
+
+function requiredScopeOf(req: any): TokenScope | undefined {
+  return req.route?.stack
+    .map((layer: any) => routeSpecOf(layer.handle)?.scope)
+    .find(Boolean);
+}
+
+function isBootstrapAdmin(email: string): boolean {
+  const adminEmails = (process.env.ADMIN_EMAILS ?? "")
+    .split(",")
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+  return Boolean(email) && adminEmails.includes(email.toLowerCase());
+}
+
+// 指定ロールのユーザーのみ。isAuthenticated の後に置く
+export function requireRole(...roles: UserRole[]): RequestHandler {
+  return (req: any, res, next) => {
+    if (req.user?.role && roles.includes(req.user.role)) {
+      return next();
+    }
+    next(new ForbiddenError());
+  };
+}
+
+// ログイン任意のルートで閲覧ユーザーの ID を得る。
+// req.user.claims は isAuthenticated が付けるので、それを通らないルートでは使えない
+export function viewerId(req: any): string | undefined {
+  return req.user?.id;
+}
+
+// 非表示の投稿を閲覧・操作できるか
+export function canModerate(user: { role?: UserRole } | undefined): boolean {
+  return user?.role === "moderator" || user?.role === "admin";
+}
@@ -0,0 +1,356 @@
+import type { Express } from "express";
+import { randomBytes } from "crypto";
+import { z } from "zod";
+import { storage } from "./storage";
+import { insertCollectionSchema, updateCollectionSchema } from "./schema";
+import { isAuthenticated, canModerate, viewerId } from "./auth";
+import { offsetPageQuery } from "./pagination";
+import { validate, idParams } from "./validation";
+import { ValidationError, ConflictError, NotFoundError } from "./errors";
+import { collectionSchema, postPageSchema, successSchema } from "./responses";
+
+const maxCollectionPosts = 500;
+
+const collectionPostSchema = z.object({
+  postId: z.uuid(),
+});
+
+const reorderSchema = z.object({
+  postIds: z.array(z.uuid()).max(maxCollectionPosts),
+});
+
+const shareTokenParams = z.object({ token: z.string() });
+
+const collectionPostParams = z.object({
+  id: z.uuid(),
+  postId: z.uuid(),
+});
+
+// 自分のコレクションだけ返す（他人のものは存在しない扱い）
+async function ownedCollection(id: string, userId: string) {
+  const collection = await storage.getCollection(id);
+  return collection?.userId === userId ? collection : undefined;
+}
+
+// 資料用に投稿をまとめるコレクション。共有リンクを発行すると誰でも閲覧できる
+export function registerCollectionRoutes(app: Express) {
+  app.get(
+    "/api/collections",
+    isAuthenticated,
+    validate({
+      summary: "Your collections, recently updated first",
+      scope: "collections:read",
+      response: z.array(collectionSchema),
+    }),
+    async (req: any, res) => {
+      res.json(await storage.getCollections(req.user.claims.sub));
+    }
+  );
+
+  app.post(
+    "/api/collections",
+    isAuthenticated,
+    validate({
+      summary: "Create a collection",
+      scope: "collections:write",
+      body: insertCollectionSchema,
+      response: collectionSchema,
+      status: 201,
+    }),
+    async (req: any, res) => {
+      res
+        .status(201)
+        .json(await storage.createCollection(req.user.claims.sub, req.body));
+    }
+  );
+
+  app.get(
+    "/api/collections/:id",
+    isAuthenticated,
+    validate({
+      summary: "Get one of your collections",
+      scope: "collections:read",
+      params: idParams,
+      response: collectionSchema,
+    }),
+    async (req: any, res) => {
+      const collection = await ownedCollection(
+        req.params.id,
+        req.user.claims.sub
+      );
+      if (!collection) {
+        throw new NotFoundError("Collection not found");
+      }
+      res.json(collection);
+    }
+  );
+
+  app.patch(
+    "/api/collections/:id",
+    isAuthenticated,
+    validate({
+      summary: "Rename a collection or edit its description",
+      scope: "collections:write",
+      params: idParams,
+      body: updateCollectionSchema,
+      response: collectionSchema,
+    }),
+    async (req: any, res) => {
+      const changes = req.body;
+      const collection = await storage.updateCollection(
+        req.params.id,
+        req.user.claims.sub,
+        changes
+      );
+      if (!collection) {
+        throw new NotFoundError("Collection not found");
+      }
+      res.json(collection);
+    }
+  );
+
+  app.delete(
+    "/api/collections/:id",
+    isAuthenticated,
+    validate({
+      summary: "Delete a collection",
+      scope: "collections:write",
+      params: idParams,
+      response: successSchema,
+    }),
+    async (req: any, res) => {
+      const deleted = await storage.deleteCollection(
+        req.params.id,
+        req.user.claims.sub
+      );
+      if (!deleted) {
+        throw new NotFoundError("Collection not found");
+      }
+      res.json({ success: true });
+    }
+  );
+
+  app.get(
+    "/api/collections/:id/posts",
+    isAuthenticated,
+    validate({
+      summary: "Posts in one of your collections, in collection order",
+      scope: "collections:read",
+      params: idParams,
+      query: offsetPageQuery,
+      response: postPageSchema,
+    }),
+    async (req: any, res) => {
+      const userId = req.user.claims.sub;
+      const { limit, cursor: offset } = req.query;
+
+      const collection = await ownedCollection(req.params.id, userId);
+      if (!collection) {
+        throw new NotFoundError("Collection not found");
+      }
+
+      res.json(
+        await storage.getCollectionPosts(collection.id, {
+          limit,
+          offset,
+          userId,
+          includeHidden: canModerate(req.user),
+        })
+      );
+    }
+  );
+
+  app.post(
+    "/api/collections/:id/posts",
+    isAuthenticated,
+    validate({
+      summary: "Add a post to the end of a collection",
+      scope: "collections:write",
+      params: idParams,
+      body: collectionPostSchema,
+      response: successSchema,
+      status: 201,
+    }),
+    async (req: any, res) => {
+      const userId = req.user.claims.sub;
+      const { postId } = req.body;
+
+      const collection = await ownedCollection(req.params.id, userId);
+      if (!collection) {
+        throw new NotFoundError("Collection not found");
+      }
+      if (collection.postCount >= maxCollectionPosts) {
+        throw new ValidationError(
+          `A collection can hold at most ${maxCollectionPosts} posts`
+        );
+      }
+      const post = await storage.getPost(postId, userId);
+      if (!post) {
+        throw new NotFoundError("Post not found");
+      }
+
+      const added = await storage.addCollectionPost(collection.id, postId);
+      if (!added) {
+        throw new ConflictError("Post is already in this collection");
+      }
+      res.status(201).json({ success: true });
+    }
+  );
+
+  app.delete(
+    "/api/collections/:id/posts/:postId",
+    isAuthenticated,
+    validate({
+      summary: "Remove a post from a collection",
+      scope: "collections:write",
+      params: collectionPostParams,
+      response: successSchema,
+    }),
+    async (req: any, res) => {
+      const collection = await ownedCollection(
+        req.params.id,
+        req.user.claims.sub
+      );
+      if (!collection) {
+        throw new NotFoundError("Collection not found");
+      }
+
+      const removed = await storage.removeCollectionPost(
+        collection.id,
+        req.params.postId
+      );
+      if (!removed) {
+        throw new NotFoundError("Post is not in this collection");
+      }
+      res.json({ success: true });
+    }
+  );
+
+  // 並び順はコレクション内の全投稿 ID を新しい順序で送る
+  app.put(
+    "/api/collections/:id/order",
+    isAuthenticated,
+    validate({
+      summary: "Reorder the posts in a collection",
+      scope: "collections:write",
+      params: idParams,
+      body: reorderSchema,
+      response: successSchema,
+    }),
+    async (req: any, res) => {
+      const { postIds } = req.body;
+
+      const collection = await ownedCollection(
+        req.params.id,
+        req.user.claims.sub
+      );
+      if (!collection) {
+        throw new NotFoundError("Collection not found");
+      }
+
+      const reordered = await storage.reorderCollectionPosts(
+        collection.id,
+        postIds
+      );
+      if (!reordered) {
+        throw new ValidationError(
+          "postIds must list every post in the collection once"
+        );
+      }
+      res.json({ success: true });
+    }
+  );
+
+  // 共有リンクの発行。発行し直すと古いリンクは使えなくなる
+  app.post(
+    "/api/collections/:id/share",
+    isAuthenticated,
+    validate({
+      summary: "Create a share link, replacing any previous one",
+      scope: "collections:write",
+      params: idParams,
+      response: collectionSchema,
+    }),
+    async (req: any, res) => {
+      const collection = await storage.setCollectionShareToken(
+        req.params.id,
+        req.user.claims.sub,
+        randomBytes(24).toString("base64url")
+      );
+      if (!collection) {
+        throw new NotFoundError("Collection not found");
+      }
+      res.json(collection);
+    }
+  );
+
+  app.delete(
+    "/api/collections/:id/share",
+    isAuthenticated,
+    validate({
+      summary: "Make a collection private again",
+      scope: "collections:write",
+      params: idParams,
+      response: collectionSchema,
+    }),
+    async (req: any, res) => {
+      const collection = await storage.setCollectionShareToken(
+        req.params.id,
+        req.user.claims.sub,
+        null
+      );
+      if (!collection) {
+        throw new NotFoundError("Collection not found");
+      }
+      res.json(collection);
+    }
+  );
+
+  // 共有リンクからの閲覧（ログイン不要。ログイン中なら閲覧者のゾーニングを使う）
+  app.get(
+    "/api/shared/collections/:token",
+    validate({
+      summary: "A collection opened by its share link",
+      params: shareTokenParams,
+      response: collectionSchema,
+    }),
+    async (req: any, res) => {
+      const collection = await storage.getCollectionByShareToken(
+        req.params.token
+      );
+      if (!collection) {
+        throw new NotFoundError("Collection not found");
+      }
+      res.json(collection);
+    }
+  );
+
+  app.get(
+    "/api/shared/collections/:token/posts",
+    validate({
+      summary: "Posts in a collection opened by its share link",
+      params: shareTokenParams,
+      query: offsetPageQuery,
+      response: postPageSchema,
+    }),
+    async (req: any, res) => {
+      const { limit, cursor: offset } = req.query;
+
+      const collection = await storage.getCollectionByShareToken(
+        req.params.token
+      );
+      if (!collection) {
+        throw new NotFoundError("Collection not found");
+      }
+
+      res.json(
+        await storage.getCollectionPosts(collection.id, {
+          limit,
+          offset,
+          userId: viewerId(req),
+          includeHidden: canModerate(req.user),
+        })
+      );
+    }
+  );
+}
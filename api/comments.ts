@@ -0,0 +1,108 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { insertCommentSchema, toPublicUser } from "./schema";
+import { isAuthenticated, canModerate, viewerId } from "./auth";
+import { validate, idParams } from "./validation";
+import { ValidationError, ForbiddenError, NotFoundError } from "./errors";
+import {
+  commentThreadSchema,
+  commentWithUserSchema,
+  successSchema,
+} from "./responses";
+
+// 投稿へのコメント（返信は 1 階層まで）
+export function registerCommentRoutes(app: Express) {
+  app.get(
+    "/api/posts/:id/comments",
+    validate({
+      summary: "Comments on a post, with their replies",
+      params: idParams,
+      response: z.array(commentThreadSchema),
+    }),
+    async (req: any, res) => {
+      const { id } = req.params;
+      const post = await storage.getPost(
+        id,
+        viewerId(req),
+        canModerate(req.user)
+      );
+      if (!post) {
+        throw new NotFoundError("Post not found");
+      }
+
+      res.json(await storage.getComments(id));
+    }
+  );
+
+  app.post(
+    "/api/posts/:id/comments",
+    isAuthenticated,
+    validate({
+      summary: "Comment on a post or reply to a top-level comment",
+      params: idParams,
+      body: insertCommentSchema,
+      response: commentWithUserSchema,
+      status: 201,
+    }),
+    async (req: any, res) => {
+      const { id } = req.params;
+      const userId = req.user.claims.sub;
+      const comment = req.body;
+
+      const post = await storage.getPost(id, userId, canModerate(req.user));
+      if (!post) {
+        throw new NotFoundError("Post not found");
+      }
+
+      if (comment.parentId) {
+        const parent = await storage.getComment(comment.parentId);
+        if (!parent || parent.postId !== id) {
+          throw new ValidationError("Invalid parentId");
+        }
+        // 返信への返信は受け付けない
+        if (parent.parentId) {
+          throw new ValidationError(
+            "Replies can only be made to top-level comments"
+          );
+        }
+      }
+
+      const created = await storage.createComment(id, userId, comment);
+      // 一覧（getComments）と同じく投稿者の公開情報を付けて返す
+      res.status(201).json({ ...created, user: toPublicUser(req.user) });
+    }
+  );
+
+  // コメント投稿者・投稿の持ち主・モデレーターが削除できる
+  app.delete(
+    "/api/comments/:id",
+    isAuthenticated,
+    validate({
+      summary: "Delete a comment",
+      params: idParams,
+      response: successSchema,
+    }),
+    async (req: any, res) => {
+      const { id } = req.params;
+      const userId = req.user.claims.sub;
+
+      const comment = await storage.getComment(id);
+      if (!comment) {
+        throw new NotFoundError("Comment not found");
+      }
+
+      const post = await storage.getPost(comment.postId, userId, true);
+      const allowed =
+        comment.userId === userId ||
+        post?.userId === userId ||
+        canModerate(req.user);
+      if (!allowed) {
+        throw new ForbiddenError("Forbidden");
+      }
+
+      await storage.deleteComment(id);
+      res.json({ success: true });
+    }
+  );
+}
@@ -5,9 +5,26 @@ import * as schema from "./schema";
 import dotenv from "dotenv";
 dotenv.config({ path: ".env" });
 neonConfig.webSocketConstructor = ws;
-if (!process.env.DATABASE_URL) {
-  throw new Error("DATABASE_URL is required");
+
+export type Database = ReturnType<typeof drizzle<typeof schema>>;
+
+let pool: Pool | undefined;
+let db: Database | undefined;
+
+// 接続は初回利用時に作る（memory ドライバでは DATABASE_URL が無くても import できるように）
+export function getPool(): Pool {
+  if (!pool) {
+    if (!process.env.DATABASE_URL) {
+      throw new Error("DATABASE_URL is required");
+    }
+    pool = new Pool({ connectionString: process.env.DATABASE_URL });
+  }
+  return pool;
 }
 
-export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle({ client: pool, schema });
+export function getDb(): Database {
+  if (!db) {
+    db = drizzle({ client: getPool(), schema });
+  }
+  return db;
+}
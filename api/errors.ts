@@ -0,0 +1,104 @@
+import type { ErrorRequestHandler } from "express";
+import multer from "multer";
+import { logger } from "./logger";
+import { TagNameError } from "./tagNames";
+import { TagQueryError } from "./tagQuery";
+import { ImageValidationError } from "./imagePipeline";
+
+// ルートから throw するとエラーミドルウェアがステータスと { message, ...details } に変換する
+export class AppError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    // レスポンスにそのまま載せる追加情報（検証エラーの一覧など）
+    readonly details?: Record<string, unknown> | undefined
+  ) {
+    super(message);
+    this.name = "AppError";
+  }
+}
+
+export class ValidationError extends AppError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(400, message, details);
+    this.name = "ValidationError";
+  }
+}
+
+export class UnauthorizedError extends AppError {
+  constructor(message = "Unauthorized") {
+    super(401, message);
+    this.name = "UnauthorizedError";
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(message = "Forbidden") {
+    super(403, message);
+    this.name = "ForbiddenError";
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(message = "Not found") {
+    super(404, message);
+    this.name = "NotFoundError";
+  }
+}
+
+export class ConflictError extends AppError {
+  constructor(message: string) {
+    super(409, message);
+    this.name = "ConflictError";
+  }
+}
+
+// 各モジュール固有のエラーとライブラリのエラーを AppError にそろえる
+function toAppError(err: unknown): AppError | undefined {
+  if (err instanceof AppError) return err;
+  if (err instanceof TagNameError) return new ValidationError(err.message);
+  if (err instanceof TagQueryError) {
+    return new ValidationError(`Invalid query: ${err.message}`, {
+      token: err.token,
+      position: err.position,
+    });
+  }
+  if (err instanceof ImageValidationError) {
+    return new AppError(err.status, err.message);
+  }
+  // アップロードのサイズ上限超過は 413
+  if (err instanceof multer.MulterError) {
+    return new AppError(
+      err.code === "LIMIT_FILE_SIZE" ? 413 : 400,
+      err.message
+    );
+  }
+  // express.json() の構文エラーなど。body-parser は 4xx に status を付ける
+  const status = (err as { status?: unknown } | null)?.status;
+  if (typeof status === "number" && status >= 400 && status < 500) {
+    return new AppError(status, (err as Error).message);
+  }
+  return undefined;
+}
+
+// 全ルートの後に登録する。想定外のエラーは中身を返さず 500 にしてログに残す
+export const errorHandler: ErrorRequestHandler = (err, req, res, next) => {
+  if (res.headersSent) return next(err);
+
+  const appError = toAppError(err);
+  if (!appError) {
+    logger.error("Unhandled error", {
+      error: err,
+      method: req.method,
+      path: req.path,
+    });
+    return res.status(500).json({ message: "Internal server error" });
+  }
+
+  if (appError.status >= 500) {
+    logger.error(appError.message, { error: appError });
+  }
+  res
+    .status(appError.status)
+    .json({ message: appError.message, ...appError.details });
+};
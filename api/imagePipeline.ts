@@ -0,0 +1,140 @@
+import sharp from "sharp";
+import dotenv from "dotenv";
+dotenv.config({ path: ".env" });
+
+export const maxUploadBytes =
+  Number(process.env.MAX_UPLOAD_BYTES) || 10 * 1024 * 1024; // 10MB
+export const maxImageDimension =
+  Number(process.env.MAX_IMAGE_DIMENSION) || 8000; // px（長辺）
+
+const renditionWidths = {
+  thumbnail: 320,
+  medium: 1024,
+};
+
+export type ImageFormat = "jpeg" | "png" | "webp" | "gif";
+
+const contentTypes: Record<ImageFormat, string> = {
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+  gif: "image/gif",
+};
+
+export type ProcessedImage = {
+  buffer: Buffer;
+  contentType: string;
+  extension: string;
+  width: number;
+  height: number;
+};
+
+export type ProcessedUpload = {
+  original: ProcessedImage;
+  medium: ProcessedImage;
+  thumbnail: ProcessedImage;
+};
+
+// アップロード画像が受け付けられないとき（ルート側で 4xx にする）
+export class ImageValidationError extends Error {
+  constructor(message: string, readonly status: 400 | 413 | 415 = 400) {
+    super(message);
+    this.name = "ImageValidationError";
+  }
+}
+
+// クライアントの mimetype は信用せず、先頭のマジックバイトで形式を判定する
+export function detectImageFormat(buffer: Buffer): ImageFormat | undefined {
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8) {
+    return buffer[2] === 0xff ? "jpeg" : undefined;
+  }
+  if (
+    buffer.length >= 8 &&
+    buffer
+      .subarray(0, 8)
+      .equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))
+  ) {
+    return "png";
+  }
+  if (
+    buffer.length >= 12 &&
+    buffer.toString("ascii", 0, 4) === "RIFF" &&
+    buffer.toString("ascii", 8, 12) === "WEBP"
+  ) {
+    return "webp";
+  }
+  if (
+    buffer.length >= 6 &&
+    /^GIF8[79]a$/.test(buffer.toString("ascii", 0, 6))
+  ) {
+    return "gif";
+  }
+  return undefined;
+}
+
+// 検証 → 向き補正 → メタデータ(EXIF/GPS)除去 → サムネイル・中サイズ生成
+export async function processUpload(buffer: Buffer): Promise<ProcessedUpload> {
+  if (buffer.length > maxUploadBytes) {
+    throw new ImageValidationError("Image is too large", 413);
+  }
+
+  const format = detectImageFormat(buffer);
+  if (!format) {
+    throw new ImageValidationError("Unsupported image format", 415);
+  }
+
+  const metadata = await sharp(buffer)
+    .metadata()
+    .catch(() => {
+      throw new ImageValidationError("Corrupt image");
+    });
+  if (!metadata.width || !metadata.height) {
+    throw new ImageValidationError("Corrupt image");
+  }
+  if (Math.max(metadata.width, metadata.height) > maxImageDimension) {
+    throw new ImageValidationError(
+      `Image dimensions exceed ${maxImageDimension}px`
+    );
+  }
+
+  // sharp は withMetadata() を呼ばない限りメタデータを出力しない。
+  // EXIF の Orientation だけは除去前に rotate() で画素に反映しておく。
+  // アニメーション GIF / WebP は原寸では全フレームを残し、中サイズ・サムネイルは 1 フレーム目にする
+  const original = await render(
+    sharp(buffer, { animated: true }).rotate(),
+    format
+  );
+  const medium = await render(
+    sharp(original.buffer).resize({
+      width: renditionWidths.medium,
+      withoutEnlargement: true,
+    }),
+    "webp"
+  );
+  const thumbnail = await render(
+    sharp(original.buffer).resize({
+      width: renditionWidths.thumbnail,
+      withoutEnlargement: true,
+    }),
+    "webp"
+  );
+
+  return { original, medium, thumbnail };
+}
+
+async function render(
+  image: sharp.Sharp,
+  format: ImageFormat
+): Promise<ProcessedImage> {
+  const { data, info } = await image
+    .toFormat(format)
+    .toBuffer({ resolveWithObject: true });
+  return {
+    buffer: data,
+    contentType: contentTypes[format],
+    extension: format === "jpeg" ? ".jpg" : `.${format}`,
+    width: info.width,
+    // 複数フレームの画像では height が全フレームの合計になる
+    height: info.pageHeight ?? info.height,
+  };
+}
@@ -0,0 +1,92 @@
+import { randomUUID } from "crypto";
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import dotenv from "dotenv";
+dotenv.config({ path: ".env" });
+
+export type ImageFile = {
+  buffer: Buffer;
+  filename: string;
+  contentType: string;
+};
+
+export type StoredImage = {
+  url: string;
+};
+
+// 画像の保存先（Cloudinary / ローカルファイル）を差し替えるためのインターフェース
+export interface ImageStore {
+  save(file: ImageFile): Promise<StoredImage>;
+}
+
+export class CloudinaryImageStore implements ImageStore {
+  constructor(
+    private readonly cloudName: string | undefined,
+    private readonly uploadPreset: string | undefined
+  ) {}
+
+  async save(file: ImageFile): Promise<StoredImage> {
+    // 設定漏れはリクエスト単位のエラーにする（起動時には落とさない）
+    if (!this.cloudName || !this.uploadPreset) {
+      throw new Error("Cloudinary configuration missing");
+    }
+
+    const formData = new FormData();
+    const blob = new Blob([new Uint8Array(file.buffer)], {
+      type: file.contentType,
+    });
+
+    formData.append("file", blob, file.filename);
+    formData.append("upload_preset", this.uploadPreset);
+
+    const res = await fetch(
+      `https://api.cloudinary.com/v1_1/${this.cloudName}/image/upload`,
+      { method: "POST", body: formData }
+    );
+    if (!res.ok) throw new Error("Failed to upload image");
+    const data = await res.json();
+
+    return { url: data.secure_url };
+  }
+}
+
+// public/ 以下に書き出す。public は express.static で配信済み
+export class LocalImageStore implements ImageStore {
+  constructor(
+    private readonly publicDir: string,
+    private readonly subDir: string,
+    private readonly baseUrl: string
+  ) {}
+
+  async save(file: ImageFile): Promise<StoredImage> {
+    const dir = path.join(this.publicDir, this.subDir);
+    await mkdir(dir, { recursive: true });
+
+    const filename = `${randomUUID()}${path.extname(file.filename)}`;
+    await writeFile(path.join(dir, filename), file.buffer);
+
+    return { url: `${this.baseUrl}/${this.subDir}/${filename}` };
+  }
+}
+
+export type ImageStoreDriver = "cloudinary" | "local";
+
+export function createImageStore(
+  driver: ImageStoreDriver = process.env.IMAGE_STORE === "local"
+    ? "local"
+    : "cloudinary"
+): ImageStore {
+  if (driver === "local") {
+    return new LocalImageStore(
+      "public",
+      "uploads",
+      process.env.BACKEND_URL?.replace(/\/$/, "") ?? ""
+    );
+  }
+  return new CloudinaryImageStore(
+    process.env.CLOUDINARY_CLOUD_NAME,
+    process.env.CLOUDINARY_UPLOAD_PRESET
+  );
+}
+
+export const imageStore = createImageStore();
@@ -2,14 +2,22 @@ import express from "express";
 import cors from "cors";
 import { registerRoutes } from "./routes";
 import multer from "multer";
+import { maxUploadBytes } from "./imagePipeline";
+import { logger, requestLogger } from "./logger";
 import dotenv from "dotenv";
 dotenv.config({ path: ".env" });
 
 const port = Number(process.env.BACKEND_PORT);
-export const multerMemoryStorage = multer({ storage: multer.memoryStorage() });
+export const multerMemoryStorage = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: maxUploadBytes, files: 1 },
+});
 
 const app = express();
+// Vercel などのプロキシ越しでも req.ip をクライアントの IP にする（レート制限のキー）
+app.set("trust proxy", 1);
 app.use(express.static("public"));
+app.use(requestLogger);
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 app.use(
@@ -21,7 +29,7 @@ app.use(
 registerRoutes(app);
 
 app.listen(port, async () => {
-  console.log(`Server is running on port ${port}`);
+  logger.info("Server is running", { port });
 });
 
 export default app;
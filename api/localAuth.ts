@@ -0,0 +1,344 @@
+import type { Express } from "express";
+import {
+  randomBytes,
+  scrypt,
+  timingSafeEqual,
+  type ScryptOptions,
+} from "crypto";
+import { z } from "zod";
+import { storage } from "./storage";
+import type { User } from "./schema";
+import { grantBootstrapAdmin } from "./auth";
+import { mailer } from "./mailer";
+import { generateToken, hashToken } from "./tokens";
+import { logger } from "./logger";
+import { writeLimits } from "./rateLimit";
+import { validate } from "./validation";
+import { UnauthorizedError, ForbiddenError, ValidationError } from "./errors";
+import { userSchema, successSchema } from "./responses";
+
+const verifyEmailTtlMs = 24 * 60 * 60 * 1000;
+const resetPasswordTtlMs = 60 * 60 * 1000;
+
+const scryptParams = { N: 16384, r: 8, p: 1 };
+const scryptKeyLength = 64;
+
+const emailField = z
+  .email()
+  .max(254)
+  .transform((email) => email.trim().toLowerCase());
+
+const passwordField = z.string().min(8).max(200);
+
+const credentialsSchema = z.object({
+  email: emailField,
+  password: z.string().max(200),
+});
+
+const registerSchema = z.object({
+  email: emailField,
+  password: passwordField,
+  displayName: z.string().trim().min(1).max(50).optional(),
+});
+
+const emailSchema = z.object({ email: emailField });
+
+const tokenSchema = z.object({ token: z.string().min(1) });
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: passwordField,
+});
+
+const devLoginSchema = z.object({
+  email: emailField,
+  displayName: z.string().trim().min(1).max(50).optional(),
+  // 管理者は作らない（ADMIN_EMAILS か管理画面で付与する）
+  role: z.enum(["user", "moderator"]).optional(),
+});
+
+function scryptAsync(
+  password: string,
+  salt: Buffer,
+  options: ScryptOptions
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, scryptKeyLength, options, (err, key) =>
+      err ? reject(err) : resolve(key)
+    );
+  });
+}
+
+// scrypt$N$r$p$salt$hash の形で保存する（パラメータを変えても古いハッシュを検証できる）
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(password, salt, scryptParams);
+  const { N, r, p } = scryptParams;
+  return [
+    "scrypt",
+    N,
+    r,
+    p,
+    salt.toString("base64"),
+    key.toString("base64"),
+  ].join("$");
+}
+
+async function verifyPassword(
+  password: string,
+  passwordHash: string
+): Promise<boolean> {
+  const [scheme, N, r, p, salt, key] = passwordHash.split("$");
+  if (scheme !== "scrypt" || !salt || !key) return false;
+
+  const expected = Buffer.from(key, "base64");
+  const actual = await scryptAsync(password, Buffer.from(salt, "base64"), {
+    N: Number(N),
+    r: Number(r),
+    p: Number(p),
+  });
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// 存在しないメールアドレスでも同じだけ時間をかけ、登録の有無を応答時間から推測させない
+const dummyPasswordHash = hashPassword(randomBytes(16).toString("hex"));
+
+async function issueToken(
+  user: User,
+  purpose: "verify_email" | "reset_password"
+): Promise<string> {
+  const token = generateToken();
+  const ttl =
+    purpose === "verify_email" ? verifyEmailTtlMs : resetPasswordTtlMs;
+  await storage.createAuthToken(
+    user.id,
+    purpose,
+    hashToken(token),
+    new Date(Date.now() + ttl)
+  );
+  return token;
+}
+
+// メール内のリンクはフロントエンドの画面に飛ばし、画面から API に token を送ってもらう
+function frontendLink(pathname: string, token: string): string {
+  const base = (process.env.FRONTEND_URL ?? "http://localhost:3000").replace(
+    /\/$/,
+    ""
+  );
+  return `${base}${pathname}?token=${encodeURIComponent(token)}`;
+}
+
+async function sendVerificationMail(user: User) {
+  const token = await issueToken(user, "verify_email");
+  await mailer.send({
+    to: user.email!,
+    subject: "メールアドレスの確認",
+    text: [
+      "以下のリンクを開いてメールアドレスを確認してください（24 時間有効）。",
+      "",
+      frontendLink("/verify-email", token),
+    ].join("\n"),
+  });
+}
+
+async function sendPasswordResetMail(user: User) {
+  const token = await issueToken(user, "reset_password");
+  await mailer.send({
+    to: user.email!,
+    subject: "パスワードの再設定",
+    text: [
+      "以下のリンクからパスワードを再設定してください（1 時間有効）。",
+      "心当たりがない場合はこのメールを無視してください。",
+      "",
+      frontendLink("/reset-password", token),
+    ].join("\n"),
+  });
+}
+
+// passport のセッションに載せる（セッション ID は passport が作り直す）
+function logIn(req: any, user: User): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.login(user, (err: unknown) => (err ? reject(err) : resolve()));
+  });
+}
+
+// メールアドレスとパスワードでのログイン。Google と同じメールアドレスなら同じユーザーになる
+export function registerLocalAuthRoutes(app: Express) {
+  // 登録済みかどうかは応答から分からないようにする
+  app.post(
+    "/api/auth/register",
+    writeLimits.auth,
+    validate({
+      summary: "Register with email and password; sends a verification mail",
+      body: registerSchema,
+      response: successSchema,
+    }),
+    async (req: any, res) => {
+      const { email, password, displayName } = req.body;
+
+      const existing = await storage.getUserByEmail(email);
+      if (existing) {
+        // 既存のユーザー（Google で作った行を含む）には再設定メールを送り、本人にパスワードを決めてもらう
+        await sendPasswordResetMail(existing);
+        return res.json({ success: true });
+      }
+
+      const user = await storage.upsertUser({ email, displayName });
+      await storage.setPasswordHash(user.id, await hashPassword(password));
+      await sendVerificationMail(user);
+      res.json({ success: true });
+    }
+  );
+
+  app.post(
+    "/api/auth/login",
+    writeLimits.auth,
+    validate({
+      summary: "Sign in with email and password",
+      body: credentialsSchema,
+      response: userSchema,
+    }),
+    async (req: any, res) => {
+      const { email, password } = req.body;
+
+      const user = await storage.getUserByEmail(email);
+      const passwordHash = user && (await storage.getPasswordHash(user.id));
+      const valid = await verifyPassword(
+        password,
+        passwordHash ?? (await dummyPasswordHash)
+      );
+      if (!user || !passwordHash || !valid) {
+        throw new UnauthorizedError("Invalid email or password");
+      }
+      if (!user.emailVerifiedAt) {
+        throw new ForbiddenError("Email address is not verified");
+      }
+
+      const signedIn = await grantBootstrapAdmin(user);
+      await logIn(req, signedIn);
+      res.json(signedIn);
+    }
+  );
+
+  app.post(
+    "/api/auth/verify-email",
+    writeLimits.auth,
+    validate({
+      summary: "Confirm an email address with the token from the mail",
+      body: tokenSchema,
+      response: successSchema,
+    }),
+    async (req: any, res) => {
+      const userId = await storage.consumeAuthToken(
+        "verify_email",
+        hashToken(req.body.token)
+      );
+      if (!userId) {
+        throw new ValidationError("Invalid or expired token");
+      }
+
+      await storage.markEmailVerified(userId);
+      res.json({ success: true });
+    }
+  );
+
+  app.post(
+    "/api/auth/verify-email/resend",
+    writeLimits.auth,
+    validate({
+      summary: "Send the verification mail again",
+      body: emailSchema,
+      response: successSchema,
+    }),
+    async (req: any, res) => {
+      const user = await storage.getUserByEmail(req.body.email);
+      if (
+        user &&
+        !user.emailVerifiedAt &&
+        (await storage.getPasswordHash(user.id))
+      ) {
+        await sendVerificationMail(user);
+      }
+      res.json({ success: true });
+    }
+  );
+
+  app.post(
+    "/api/auth/password-reset",
+    writeLimits.auth,
+    validate({
+      summary: "Send a password reset mail",
+      body: emailSchema,
+      response: successSchema,
+    }),
+    async (req: any, res) => {
+      const user = await storage.getUserByEmail(req.body.email);
+      if (user) await sendPasswordResetMail(user);
+      res.json({ success: true });
+    }
+  );
+
+  // リンクを開けた＝メールを受け取れたので、確認済みにもする
+  app.post(
+    "/api/auth/password-reset/confirm",
+    writeLimits.auth,
+    validate({
+      summary: "Set a new password with the token from the mail",
+      body: resetPasswordSchema,
+      response: successSchema,
+    }),
+    async (req: any, res) => {
+      const { token, password } = req.body;
+
+      const userId = await storage.consumeAuthToken(
+        "reset_password",
+        hashToken(token)
+      );
+      if (!userId) {
+        throw new ValidationError("Invalid or expired token");
+      }
+
+      await storage.setPasswordHash(userId, await hashPassword(password));
+      await storage.markEmailVerified(userId);
+      res.json({ success: true });
+    }
+  );
+
+  // パスワードなしで任意のユーザーとしてログインする。
+  // ENABLE_DEV_LOGIN=1 のときだけ登録し、本番ではフラグがあっても登録しない
+  if (process.env.ENABLE_DEV_LOGIN !== "1") return;
+  if (process.env.NODE_ENV === "production") {
+    logger.error("ENABLE_DEV_LOGIN is ignored in production");
+    return;
+  }
+
+  logger.warn("Development login is enabled at POST /api/auth/dev-login");
+  app.post(
+    "/api/auth/dev-login",
+    writeLimits.auth,
+    validate({
+      summary: "Development only: sign in as a non-admin email without a password",
+      body: devLoginSchema,
+      response: userSchema,
+    }),
+    async (req: any, res) => {
+      const { email, displayName, role } = req.body;
+
+      let user =
+        (await storage.getUserByEmail(email)) ??
+        (await storage.upsertUser({ email, displayName }));
+      if (user.role === "admin") {
+        throw new ForbiddenError(
+          "Development login cannot sign in as an admin"
+        );
+      }
+      user = (await storage.markEmailVerified(user.id)) ?? user;
+      if (role && role !== user.role) {
+        user = (await storage.setUserRole(user.id, role, null)) ?? user;
+      }
+
+      await logIn(req, user);
+      res.json(user);
+    }
+  );
+}
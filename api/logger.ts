@@ -0,0 +1,105 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { randomUUID } from "crypto";
+import type { RequestHandler } from "express";
+
+type LogLevel = "debug" | "info" | "warn" | "error";
+
+type LogFields = Record<string, unknown>;
+
+const levels: LogLevel[] = ["debug", "info", "warn", "error"];
+
+const minLevel = levels.indexOf(
+  levels.find((level) => level === process.env.LOG_LEVEL) ?? "info"
+);
+
+// これより遅いリクエストは warn で記録する
+const slowRequestMs = Number(process.env.SLOW_REQUEST_MS) || 1000;
+
+// リクエストの処理中に書いたログへ自動で requestId を付けるための文脈
+const requestContext = new AsyncLocalStorage<{ requestId: string }>();
+
+export function currentRequestId(): string | undefined {
+  return requestContext.getStore()?.requestId;
+}
+
+// Error は JSON.stringify すると {} になるので中身を取り出す
+function serialize(value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  return value;
+}
+
+// 1 行 1 JSON で標準出力（warn 以上は標準エラー）に書く
+function write(level: LogLevel, message: string, fields: LogFields = {}) {
+  if (levels.indexOf(level) < minLevel) return;
+
+  const entry: LogFields = {
+    time: new Date().toISOString(),
+    level,
+    message,
+    requestId: currentRequestId(),
+  };
+  for (const [key, value] of Object.entries(fields)) {
+    entry[key] = serialize(value);
+  }
+
+  const line = JSON.stringify(entry) + "\n";
+  if (levels.indexOf(level) >= levels.indexOf("warn")) {
+    process.stderr.write(line);
+  } else {
+    process.stdout.write(line);
+  }
+}
+
+export const logger = {
+  debug: (message: string, fields?: LogFields) =>
+    write("debug", message, fields),
+  info: (message: string, fields?: LogFields) => write("info", message, fields),
+  warn: (message: string, fields?: LogFields) => write("warn", message, fields),
+  error: (message: string, fields?: LogFields) =>
+    write("error", message, fields),
+};
+
+// 受け取った X-Request-Id はプロキシが振ったものとして引き継ぐ（形式が妥当なときだけ）
+const requestIdPattern = /^[\w.:-]{1,128}$/;
+
+// リクエストごとに ID を振って X-Request-Id で返し、完了時に所要時間を記録する
+export const requestLogger: RequestHandler = (req: any, res, next) => {
+  const incoming = req.get("X-Request-Id");
+  const requestId =
+    incoming && requestIdPattern.test(incoming) ? incoming : randomUUID();
+  const startedAt = process.hrtime.bigint();
+
+  req.id = requestId;
+  res.set("X-Request-Id", requestId);
+
+  const log = (aborted: boolean) => {
+    const durationMs = Number(process.hrtime.bigint() - startedAt) / 1_000_000;
+    const fields = {
+      requestId,
+      method: req.method,
+      path: req.path,
+      // /api/posts/:id のようなルート定義。遅いエンドポイントの集計用
+      route: req.route?.path,
+      status: res.statusCode,
+      durationMs: Math.round(durationMs * 10) / 10,
+      userId: req.user?.id,
+      ...(aborted && { aborted }),
+    };
+    if (res.statusCode >= 500) {
+      logger.error("Request failed", fields);
+    } else if (durationMs >= slowRequestMs) {
+      logger.warn("Slow request", fields);
+    } else {
+      logger.info("Request completed", fields);
+    }
+  };
+  res.on("finish", () => log(false));
+  // SSE の切断などで応答し終える前に閉じられたとき
+  res.on("close", () => {
+    if (!res.writableFinished) log(true);
+  });
+
+  requestContext.run({ requestId }, next);
+};
@@ -0,0 +1,72 @@
+import { randomUUID } from "crypto";
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import dotenv from "dotenv";
+import { logger } from "./logger";
+dotenv.config({ path: ".env" });
+
+export type Mail = {
+  to: string;
+  subject: string;
+  text: string;
+};
+
+// メールの送信方法（コンソール / ファイル）を差し替えるためのインターフェース
+export interface Mailer {
+  send(mail: Mail): Promise<void>;
+}
+
+// リンクの token はそのままログインやパスワード再設定に使えるので、info のログでは伏せる
+function redactTokens(text: string): string {
+  return text.replace(/([?&]token=)[^&\s]+/g, "$1[redacted]");
+}
+
+// 本文をログに出すだけ。ローカル開発では LOG_LEVEL=debug にすると確認リンクを拾える
+export class ConsoleMailer implements Mailer {
+  async send(mail: Mail): Promise<void> {
+    logger.info("Mail sent", {
+      mailer: "console",
+      ...mail,
+      text: redactTokens(mail.text),
+    });
+    logger.debug("Mail body", { to: mail.to, text: mail.text });
+  }
+}
+
+// 1 通ずつ .eml として書き出す。テストやステージングで中身を確かめる用
+export class FileMailer implements Mailer {
+  constructor(private readonly dir: string, private readonly from: string) {}
+
+  async send(mail: Mail): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+
+    const filename = `${Date.now()}-${randomUUID()}.eml`;
+    const message = [
+      `From: ${this.from}`,
+      `To: ${mail.to}`,
+      `Subject: ${mail.subject}`,
+      "Content-Type: text/plain; charset=utf-8",
+      "",
+      mail.text,
+    ].join("\r\n");
+    await writeFile(path.join(this.dir, filename), message);
+
+    logger.info("Mail written", { mailer: "file", to: mail.to, filename });
+  }
+}
+
+export type MailerDriver = "console" | "file";
+
+export function createMailer(
+  driver: MailerDriver = process.env.MAILER === "file" ? "file" : "console"
+): Mailer {
+  if (driver === "file") {
+    return new FileMailer(
+      process.env.MAIL_DIR ?? "mail",
+      process.env.MAIL_FROM ?? "no-reply@localhost"
+    );
+  }
+  return new ConsoleMailer();
+}
+
+export const mailer = createMailer();
@@ -0,0 +1,1802 @@
+import { randomUUID } from "crypto";
+import type {
+  User,
+  UpsertUser,
+  Post,
+  Tag,
+  PostTag,
+  PostImage,
+  InsertPostImage,
+  Favorite,
+  UserExcludeTag,
+  PostWithTags,
+  PostPage,
+  InsertPost,
+  UpdatePost,
+  InsertTag,
+  TagAlias,
+  InsertTagAlias,
+  TagCategory,
+  TagWithCount,
+  UserRole,
+  AuthToken,
+  AuthTokenPurpose,
+  AccessTokenInfo,
+  InsertAccessToken,
+  PersonalAccessToken,
+  TokenScope,
+  UserProfile,
+  UserPage,
+  Follow,
+  Comment,
+  InsertComment,
+  CommentThread,
+  Notification,
+  InsertNotification,
+  NotificationPage,
+  UpdateProfile,
+  UserExport,
+  DeletedUser,
+  PostReport,
+  InsertReport,
+  ModerationLog,
+  ModerationQueuePage,
+  ModerationLogPage,
+  ZoningPreset,
+  ZoningPresetTag,
+  InsertZoningPreset,
+  UpdateZoningPreset,
+  ZoningPresetWithTags,
+  Collection,
+  CollectionPost,
+  CollectionWithCount,
+  InsertCollection,
+  UpdateCollection,
+} from "./schema";
+import {
+  tagCategoryEnum,
+  isEdited,
+  legacyCoverImage,
+  toPublicUser,
+  toPublicPost,
+  imageUrlsOf,
+} from "./schema";
+import type {
+  IStorage,
+  PageOptions,
+  PostFilterOptions,
+  PostListOptions,
+  SearchOptions,
+  FavoriteListOptions,
+  OffsetPageOptions,
+  ModerationLogOptions,
+  NotificationListOptions,
+  TagCooccurrenceOptions,
+  CollectionPostListOptions,
+} from "./storage";
+import { encodeCursor, encodeOffsetCursor } from "./pagination";
+import { publishNotificationEvent } from "./notificationHub";
+import { trendingScore } from "./ranking";
+import { matchesTagQuery, type ResolvedTagQuery } from "./tagQuery";
+import {
+  matchingTagIds,
+  normalizeSearchText,
+  tokenizeSearchQuery,
+} from "./search";
+
+// Postgres の enum は宣言順で並ぶので、それに合わせる
+const categoryOrder = (category: TagCategory) =>
+  tagCategoryEnum.enumValues.indexOf(category);
+
+type KeysetKey = { createdAt: Date | null; id: string };
+
+// DatabaseStorage と同じく (createdAt, id) の降順で、cursor より後ろを limit 件返す
+function keysetPage<T extends { key: KeysetKey }>(
+  items: T[],
+  { limit = 20, cursor }: PageOptions
+): { items: T[]; nextCursor: string | null } {
+  const time = (key: KeysetKey) => key.createdAt?.getTime() ?? 0;
+  const sorted = [...items].sort(
+    (a, b) =>
+      time(b.key) - time(a.key) ||
+      (a.key.id < b.key.id ? 1 : a.key.id > b.key.id ? -1 : 0)
+  );
+
+  const remaining = cursor
+    ? sorted.filter(({ key }) => {
+        const cursorTime = Date.parse(cursor.createdAt);
+        return (
+          time(key) < cursorTime ||
+          (time(key) === cursorTime && key.id < cursor.id)
+        );
+      })
+    : sorted;
+
+  const pageItems = remaining.slice(0, limit);
+  const last = pageItems[pageItems.length - 1];
+  return {
+    items: pageItems,
+    nextCursor:
+      remaining.length > limit && last
+        ? encodeCursor({
+            createdAt: new Date(time(last.key)).toISOString(),
+            id: last.key.id,
+          })
+        : null,
+  };
+}
+
+// DB を使わずにプロセス内で完結する IStorage 実装（ローカル開発・テスト用）
+export class MemoryStorage implements IStorage {
+  private users = new Map<string, User>();
+  // userId → パスワードハッシュ
+  private passwordHashes = new Map<string, string>();
+  private authTokens: AuthToken[] = [];
+  private accessTokens = new Map<string, PersonalAccessToken>();
+  private tags = new Map<string, Tag>();
+  private posts = new Map<string, Post>();
+  private postTags: PostTag[] = [];
+  private postImages: PostImage[] = [];
+  private favorites: Favorite[] = [];
+  private follows: Follow[] = [];
+  private comments: Comment[] = [];
+  private notifications: Notification[] = [];
+  private userExcludeTags: UserExcludeTag[] = [];
+  private zoningPresets = new Map<string, ZoningPreset>();
+  private zoningPresetTags: ZoningPresetTag[] = [];
+  private collections = new Map<string, Collection>();
+  private collectionPosts: CollectionPost[] = [];
+  private tagAliases: TagAlias[] = [];
+  private postReports: PostReport[] = [];
+  private moderationLogs: ModerationLog[] = [];
+
+  // 保存しているオブジェクトをそのまま返すと呼び出し側の変更がストアに残るので、
+  // DB ドライバと同じく毎回コピーを返す
+  async getUser(id: string): Promise<User | undefined> {
+    const user = this.users.get(id);
+    return user && { ...user };
+  }
+
+  async upsertUser(userData: UpsertUser): Promise<User> {
+    const existing = Array.from(this.users.values()).find(
+      (u) => u.email !== null && u.email === userData.email
+    );
+
+    if (existing) {
+      const updated: User = {
+        ...existing,
+        firstName: userData.firstName ?? null,
+        lastName: userData.lastName ?? null,
+        profileImageUrl: userData.profileImageUrl ?? null,
+        updatedAt: new Date(),
+      };
+      this.users.set(updated.id, updated);
+      return { ...updated };
+    }
+
+    const now = new Date();
+    const user: User = {
+      id: userData.id ?? randomUUID(),
+      email: userData.email ?? null,
+      firstName: userData.firstName ?? null,
+      lastName: userData.lastName ?? null,
+      profileImageUrl: userData.profileImageUrl ?? null,
+      displayName: userData.displayName ?? null,
+      bio: userData.bio ?? null,
+      role: userData.role ?? "user",
+      emailVerifiedAt: userData.emailVerifiedAt ?? null,
+      createdAt: userData.createdAt ?? now,
+      updatedAt: userData.updatedAt ?? now,
+    };
+    this.users.set(user.id, user);
+    return { ...user };
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const user = Array.from(this.users.values()).find(
+      (u) => u.email?.toLowerCase() === email.toLowerCase()
+    );
+    return user && { ...user };
+  }
+
+  async markEmailVerified(userId: string): Promise<User | undefined> {
+    const user = this.users.get(userId);
+    if (!user) return undefined;
+
+    const now = new Date();
+    const updated: User = {
+      ...user,
+      emailVerifiedAt: user.emailVerifiedAt ?? now,
+      updatedAt: now,
+    };
+    this.users.set(userId, updated);
+    return { ...updated };
+  }
+
+  async getPasswordHash(userId: string): Promise<string | undefined> {
+    return this.passwordHashes.get(userId);
+  }
+
+  async setPasswordHash(
+    userId: string,
+    passwordHash: string | null
+  ): Promise<void> {
+    if (passwordHash === null) this.passwordHashes.delete(userId);
+    else this.passwordHashes.set(userId, passwordHash);
+  }
+
+  async createAuthToken(
+    userId: string,
+    purpose: AuthTokenPurpose,
+    tokenHash: string,
+    expiresAt: Date
+  ): Promise<void> {
+    this.authTokens = this.authTokens.filter(
+      (t) => !(t.userId === userId && t.purpose === purpose)
+    );
+    this.authTokens.push({
+      id: randomUUID(),
+      userId,
+      purpose,
+      tokenHash,
+      expiresAt,
+      createdAt: new Date(),
+    });
+  }
+
+  async consumeAuthToken(
+    purpose: AuthTokenPurpose,
+    tokenHash: string
+  ): Promise<string | undefined> {
+    const token = this.authTokens.find(
+      (t) =>
+        t.tokenHash === tokenHash &&
+        t.purpose === purpose &&
+        t.expiresAt.getTime() > Date.now()
+    );
+    if (!token) return undefined;
+
+    this.authTokens = this.authTokens.filter((t) => t !== token);
+    return token.userId;
+  }
+
+  async getAccessTokens(userId: string): Promise<AccessTokenInfo[]> {
+    return Array.from(this.accessTokens.values())
+      .filter((t) => t.userId === userId)
+      .sort(
+        (a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0)
+      )
+      .map(({ tokenHash: _tokenHash, ...token }) => token);
+  }
+
+  async createAccessToken(
+    userId: string,
+    token: InsertAccessToken,
+    tokenHash: string,
+    tokenPrefix: string
+  ): Promise<AccessTokenInfo> {
+    const created: PersonalAccessToken = {
+      id: randomUUID(),
+      userId,
+      name: token.name,
+      scopes: token.scopes,
+      tokenHash,
+      tokenPrefix,
+      lastUsedAt: null,
+      createdAt: new Date(),
+    };
+    this.accessTokens.set(created.id, created);
+    const { tokenHash: _tokenHash, ...info } = created;
+    return info;
+  }
+
+  async deleteAccessToken(id: string, userId: string): Promise<boolean> {
+    if (this.accessTokens.get(id)?.userId !== userId) return false;
+    return this.accessTokens.delete(id);
+  }
+
+  async authenticateAccessToken(
+    tokenHash: string
+  ): Promise<{ user: User; scopes: TokenScope[] } | undefined> {
+    const token = Array.from(this.accessTokens.values()).find(
+      (t) => t.tokenHash === tokenHash
+    );
+    if (!token) return undefined;
+
+    this.accessTokens.set(token.id, { ...token, lastUsedAt: new Date() });
+    const user = this.users.get(token.userId);
+    return user && { user: { ...user }, scopes: token.scopes };
+  }
+
+  async setUserRole(
+    userId: string,
+    role: UserRole,
+    actorId: string | null
+  ): Promise<User | undefined> {
+    const user = this.users.get(userId);
+    if (!user) return undefined;
+
+    const updated: User = { ...user, role, updatedAt: new Date() };
+    this.users.set(userId, updated);
+    this.log({
+      moderatorId: actorId,
+      action: "change_role",
+      targetUserId: userId,
+      reason: `role: ${role}`,
+    });
+    return { ...updated };
+  }
+
+  async getUserProfile(
+    id: string,
+    viewerId?: string,
+    includeHidden = false
+  ): Promise<UserProfile | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+
+    const postIds = new Set(
+      Array.from(this.posts.values())
+        .filter(
+          (post) =>
+            post.userId === id &&
+            (includeHidden || this.isVisibleTo(post, viewerId))
+        )
+        .map((post) => post.id)
+    );
+
+    return {
+      ...toPublicUser(user),
+      bio: user.bio,
+      postCount: postIds.size,
+      favoriteCount: this.favorites.filter((f) => postIds.has(f.postId)).length,
+      followerCount: this.follows.filter((f) => f.followingId === id).length,
+      followingCount: this.follows.filter((f) => f.followerId === id).length,
+      isFollowing: viewerId ? this.isFollowing(viewerId, id) : false,
+      createdAt: user.createdAt,
+    };
+  }
+
+  async updateUserProfile(
+    id: string,
+    changes: UpdateProfile
+  ): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+
+    const definedChanges = Object.fromEntries(
+      Object.entries(changes).filter(([, value]) => value !== undefined)
+    );
+    const updated: User = { ...user, ...definedChanges, updatedAt: new Date() };
+    this.users.set(id, updated);
+    return { ...updated };
+  }
+
+  async getUserExport(userId: string): Promise<UserExport | undefined> {
+    const profile = this.users.get(userId);
+    if (!profile) return undefined;
+
+    const newestFirst = (a: { createdAt: Date | null }, b: typeof a) =>
+      (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0);
+
+    return {
+      profile: { ...profile },
+      posts: Array.from(this.posts.values())
+        .filter((post) => post.userId === userId)
+        .sort(newestFirst)
+        .map((post) => this.toPostWithTags(post)),
+      favorites: this.favorites
+        .filter((f) => f.userId === userId)
+        .sort(newestFirst)
+        .map(({ postId, createdAt }) => ({ postId, createdAt })),
+      excludeTags: await this.getUserExcludeTags(userId),
+      comments: this.comments
+        .filter((c) => c.userId === userId)
+        .sort((a, b) => newestFirst(b, a)),
+      following: this.follows
+        .filter((f) => f.followerId === userId)
+        .sort(newestFirst)
+        .map(({ followingId, createdAt }) => ({ followingId, createdAt })),
+      zoningPresets: await this.getZoningPresets(userId),
+      collections: (await this.getCollections(userId)).map((collection) => ({
+        ...collection,
+        postIds: this.collectionPosts
+          .filter((cp) => cp.collectionId === collection.id)
+          .sort((a, b) => a.position - b.position)
+          .map((cp) => cp.postId),
+      })),
+    };
+  }
+
+  // セッションは express-session の MemoryStore にあるので消せないが、
+  // deserializeUser がユーザーを見つけられず未ログイン扱いになる
+  async deleteUser(id: string): Promise<DeletedUser | undefined> {
+    if (!this.users.has(id)) return undefined;
+
+    const ownPosts = Array.from(this.posts.values()).filter(
+      (post) => post.userId === id
+    );
+    const imageUrls = imageUrlsOf([
+      ...ownPosts,
+      ...this.postImages.filter((image) =>
+        ownPosts.some((post) => post.id === image.postId)
+      ),
+    ]);
+    const favoritedPostIds = this.favorites
+      .filter((f) => f.userId === id)
+      .map((f) => f.postId);
+
+    // onDelete: cascade 相当（投稿とコメントは依存する行ごと消す）
+    for (const post of ownPosts) await this.deletePost(post.id, id);
+    for (const comment of this.comments.filter((c) => c.userId === id)) {
+      await this.deleteComment(comment.id);
+    }
+    this.users.delete(id);
+    this.passwordHashes.delete(id);
+    this.authTokens = this.authTokens.filter((t) => t.userId !== id);
+    for (const token of this.accessTokens.values()) {
+      if (token.userId === id) this.accessTokens.delete(token.id);
+    }
+    this.favorites = this.favorites.filter((f) => f.userId !== id);
+    this.notifications = this.notifications.filter(
+      (n) => n.userId !== id && n.actorId !== id
+    );
+    this.follows = this.follows.filter(
+      (f) => f.followerId !== id && f.followingId !== id
+    );
+    this.userExcludeTags = this.userExcludeTags.filter((e) => e.userId !== id);
+    for (const preset of this.zoningPresets.values()) {
+      if (preset.userId !== id) continue;
+      this.zoningPresets.delete(preset.id);
+      this.zoningPresetTags = this.zoningPresetTags.filter(
+        (pt) => pt.presetId !== preset.id
+      );
+    }
+    for (const collection of this.collections.values()) {
+      if (collection.userId !== id) continue;
+      this.collections.delete(collection.id);
+      this.collectionPosts = this.collectionPosts.filter(
+        (cp) => cp.collectionId !== collection.id
+      );
+    }
+    this.postReports = this.postReports
+      .filter((r) => r.reporterId !== id)
+      .map((r) => (r.resolvedBy === id ? { ...r, resolvedBy: null } : r));
+    // onDelete: set null 相当
+    this.moderationLogs = this.moderationLogs.map((log) => ({
+      ...log,
+      moderatorId: log.moderatorId === id ? null : log.moderatorId,
+      targetUserId: log.targetUserId === id ? null : log.targetUserId,
+    }));
+
+    await this.recountFavorites(favoritedPostIds);
+    return { imageUrls };
+  }
+
+  async getAllTags(): Promise<Tag[]> {
+    return Array.from(this.tags.values(), (tag) => ({ ...tag })).sort(
+      (a, b) =>
+        categoryOrder(a.category) - categoryOrder(b.category) ||
+        a.name.localeCompare(b.name)
+    );
+  }
+
+  async getTagsByCategory(category: TagCategory): Promise<Tag[]> {
+    return Array.from(this.tags.values())
+      .filter((tag) => tag.category === category)
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((tag) => ({ ...tag }));
+  }
+
+  async createTag(tag: InsertTag): Promise<Tag> {
+    // 名前・カテゴリの一意制約相当
+    const existingTag = Array.from(this.tags.values()).find(
+      (t) => t.name === tag.name && t.category === tag.category
+    );
+    if (existingTag) return { ...existingTag };
+
+    const newTag: Tag = {
+      id: randomUUID(),
+      name: tag.name,
+      category: tag.category,
+      reading: tag.reading ?? null,
+      parentId: null,
+      createdAt: new Date(),
+    };
+    this.tags.set(newTag.id, newTag);
+    return { ...newTag };
+  }
+
+  async getOrCreateTag(
+    name: string,
+    category: TagCategory,
+    reading?: string
+  ): Promise<Tag> {
+    const existingTag = Array.from(this.tags.values()).find(
+      (tag) => tag.name === name && tag.category === category
+    );
+
+    if (existingTag) {
+      if (reading && !existingTag.reading) {
+        existingTag.reading = reading;
+      }
+      return { ...existingTag };
+    }
+
+    // 別名として登録済みなら正規のタグを返す
+    const alias = this.tagAliases.find(
+      (a) => a.name === name && a.category === category
+    );
+    const aliasTag = alias && this.tags.get(alias.tagId);
+    if (aliasTag) {
+      return { ...aliasTag };
+    }
+
+    return await this.createTag({ name, category, reading: reading ?? null });
+  }
+
+  async getTag(id: string): Promise<Tag | undefined> {
+    const tag = this.tags.get(id);
+    return tag && { ...tag };
+  }
+
+  async deleteUnusedFreeTags(createdBefore: Date): Promise<number> {
+    const isUsed = (tagId: string) =>
+      this.postTags.some((pt) => pt.tagId === tagId) ||
+      this.postImages.some((image) => image.angleTagId === tagId) ||
+      this.userExcludeTags.some((e) => e.tagId === tagId) ||
+      this.zoningPresetTags.some((pt) => pt.tagId === tagId) ||
+      Array.from(this.tags.values()).some((tag) => tag.parentId === tagId);
+
+    const unused = Array.from(this.tags.values()).filter(
+      (tag) =>
+        tag.category === "自由" &&
+        (tag.createdAt?.getTime() ?? 0) < createdBefore.getTime() &&
+        !isUsed(tag.id)
+    );
+    for (const tag of unused) {
+      this.tags.delete(tag.id);
+      // 別名は onDelete: cascade 相当
+      this.tagAliases = this.tagAliases.filter((a) => a.tagId !== tag.id);
+    }
+    return unused.length;
+  }
+
+  async getTagDescendantIds(tagId: string): Promise<string[]> {
+    return this.tags.has(tagId) ? this.withDescendants([tagId]) : [];
+  }
+
+  async setTagParent(
+    tagId: string,
+    parentId: string | null
+  ): Promise<Tag | undefined> {
+    const tag = this.tags.get(tagId);
+    if (!tag) return undefined;
+    tag.parentId = parentId;
+    return { ...tag };
+  }
+
+  async getTagAliases(tagId?: string): Promise<TagAlias[]> {
+    return this.tagAliases
+      .filter((alias) => !tagId || alias.tagId === tagId)
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((alias) => ({ ...alias }));
+  }
+
+  async createTagAlias(
+    alias: InsertTagAlias,
+    tagId: string
+  ): Promise<TagAlias> {
+    const existing = this.tagAliases.find(
+      (a) => a.name === alias.name && a.category === alias.category
+    );
+    if (existing) {
+      existing.tagId = tagId;
+      return { ...existing };
+    }
+
+    const newAlias: TagAlias = {
+      id: randomUUID(),
+      name: alias.name,
+      category: alias.category,
+      tagId,
+      createdAt: new Date(),
+    };
+    this.tagAliases.push(newAlias);
+    return { ...newAlias };
+  }
+
+  async deleteTagAlias(id: string): Promise<boolean> {
+    const before = this.tagAliases.length;
+    this.tagAliases = this.tagAliases.filter((alias) => alias.id !== id);
+    return this.tagAliases.length < before;
+  }
+
+  async mergeTags(
+    sourceId: string,
+    targetId: string
+  ): Promise<Tag | undefined> {
+    const source = this.tags.get(sourceId);
+    const target = this.tags.get(targetId);
+    if (!source || !target || sourceId === targetId) return undefined;
+
+    const replaceTag = <T extends { tagId: string }>(
+      rows: T[],
+      ownerOf: (row: T) => string
+    ): T[] => {
+      const targetOwners = new Set(
+        rows.filter((r) => r.tagId === targetId).map(ownerOf)
+      );
+      return rows
+        .filter((r) => r.tagId !== sourceId || !targetOwners.has(ownerOf(r)))
+        .map((r) => (r.tagId === sourceId ? { ...r, tagId: targetId } : r));
+    };
+    this.postTags = replaceTag(this.postTags, (r) => r.postId);
+    this.userExcludeTags = replaceTag(this.userExcludeTags, (r) => r.userId);
+    this.zoningPresetTags = replaceTag(
+      this.zoningPresetTags,
+      (r) => r.presetId
+    );
+
+    for (const image of this.postImages) {
+      if (image.angleTagId === sourceId) {
+        image.angleTagId = target.category === "角度" ? targetId : null;
+      }
+    }
+    for (const tag of this.tags.values()) {
+      if (tag.parentId === sourceId) tag.parentId = targetId;
+    }
+    for (const alias of this.tagAliases) {
+      if (alias.tagId === sourceId) alias.tagId = targetId;
+    }
+    await this.createTagAlias(
+      { name: source.name, category: source.category },
+      targetId
+    );
+
+    this.tags.delete(sourceId);
+    return { ...target };
+  }
+
+  async getTagStats(category?: TagCategory): Promise<TagWithCount[]> {
+    const visiblePostIds = this.visiblePostIds();
+    return (await this.getAllTags())
+      .filter((tag) => !category || tag.category === category)
+      .map((tag) => ({
+        ...tag,
+        postCount: this.postTags.filter(
+          (pt) => pt.tagId === tag.id && visiblePostIds.has(pt.postId)
+        ).length,
+      }))
+      .sort((a, b) => b.postCount - a.postCount);
+  }
+
+  async getCooccurringTags(
+    tagIds: string[],
+    { category, limit = 10 }: TagCooccurrenceOptions = {}
+  ): Promise<TagWithCount[]> {
+    const visiblePostIds = this.visiblePostIds();
+    const taggedPostIds = new Set(
+      this.postTags
+        .filter(
+          (pt) => tagIds.includes(pt.tagId) && visiblePostIds.has(pt.postId)
+        )
+        .map((pt) => pt.postId)
+    );
+
+    const counts = new Map<string, Set<string>>();
+    for (const pt of this.postTags) {
+      if (!taggedPostIds.has(pt.postId) || tagIds.includes(pt.tagId)) continue;
+      counts.set(pt.tagId, (counts.get(pt.tagId) ?? new Set()).add(pt.postId));
+    }
+
+    return Array.from(counts.entries())
+      .map(([tagId, postIds]) => ({
+        tag: this.tags.get(tagId),
+        postCount: postIds.size,
+      }))
+      .filter(
+        (entry): entry is { tag: Tag; postCount: number } =>
+          Boolean(entry.tag) && (!category || entry.tag!.category === category)
+      )
+      .sort(
+        (a, b) =>
+          b.postCount - a.postCount || a.tag.name.localeCompare(b.tag.name)
+      )
+      .slice(0, limit)
+      .map(({ tag, postCount }) => ({ ...tag, postCount }));
+  }
+
+  async getPosts({
+    limit = 20,
+    cursor,
+    sort = "new",
+    offset = 0,
+    ...filters
+  }: PostListOptions = {}): Promise<PostPage> {
+    const matched = this.filterPosts(filters);
+
+    if (sort !== "new") {
+      const now = Date.now();
+      const score = (post: Post) =>
+        sort === "popular"
+          ? post.favoriteCount
+          : trendingScore(post.favoriteCount, post.createdAt, now);
+      const ranked = matched.sort(
+        (a, b) =>
+          score(b) - score(a) ||
+          (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0) ||
+          (a.id < b.id ? 1 : a.id > b.id ? -1 : 0)
+      );
+      return {
+        posts: ranked
+          .slice(offset, offset + limit)
+          .map((post) => this.toPostWithTags(post, filters.userId)),
+        nextCursor:
+          ranked.length > offset + limit
+            ? encodeOffsetCursor(offset + limit)
+            : null,
+      };
+    }
+
+    const page = keysetPage(
+      matched.map((post) => ({ key: post, post })),
+      { limit, cursor }
+    );
+    return {
+      posts: page.items.map(({ post }) =>
+        this.toPostWithTags(post, filters.userId)
+      ),
+      nextCursor: page.nextCursor,
+    };
+  }
+
+  async searchPosts(
+    query: string,
+    { limit = 20, offset = 0, ...filters }: SearchOptions
+  ): Promise<PostPage> {
+    const tokens = tokenizeSearchQuery(query);
+    if (tokens.length === 0) return { posts: [], nextCursor: null };
+
+    const allTags = Array.from(this.tags.values());
+    const tokenTagIds = tokens.map((token) =>
+      this.withDescendants(matchingTagIds(token, allTags, this.tagAliases))
+    );
+    const ranked = this.filterPosts(filters)
+      .map((post) => {
+        const postTagIds = this.getPostTagIds(post.id);
+        let rank = 0;
+        for (const [i, token] of tokens.entries()) {
+          const tagMatch = tokenTagIds[i]!.some((tagId) =>
+            postTagIds.includes(tagId)
+          );
+          const captionMatch = (post.searchText ?? "").includes(token);
+          if (!tagMatch && !captionMatch) return undefined;
+          // DB 側の word_similarity の代わりに部分一致を 0.5 点とする
+          rank += (tagMatch ? 1 : 0) + (captionMatch ? 0.5 : 0);
+        }
+        return { post, rank };
+      })
+      .filter((entry): entry is { post: Post; rank: number } => Boolean(entry))
+      .sort(
+        (a, b) =>
+          b.rank - a.rank ||
+          (b.post.createdAt?.getTime() ?? 0) -
+            (a.post.createdAt?.getTime() ?? 0)
+      );
+
+    return {
+      posts: ranked
+        .slice(offset, offset + limit)
+        .map(({ post }) => this.toPostWithTags(post, filters.userId)),
+      nextCursor:
+        ranked.length > offset + limit
+          ? encodeOffsetCursor(offset + limit)
+          : null,
+    };
+  }
+
+  async getPost(
+    id: string,
+    userId?: string,
+    includeHidden = false
+  ): Promise<PostWithTags | undefined> {
+    const post = this.posts.get(id);
+    if (!post) return undefined;
+    if (!includeHidden && !this.isVisibleTo(post, userId)) return undefined;
+    return this.toPostWithTags(post, userId);
+  }
+
+  async createPost(
+    post: InsertPost,
+    tagIds: string[],
+    images: InsertPostImage[] = []
+  ): Promise<Post> {
+    const now = new Date();
+    const newPost: Post = {
+      id: randomUUID(),
+      userId: post.userId,
+      imageUrl: post.imageUrl,
+      imageWidth: post.imageWidth ?? null,
+      imageHeight: post.imageHeight ?? null,
+      thumbnailUrl: post.thumbnailUrl ?? null,
+      mediumUrl: post.mediumUrl ?? null,
+      caption: post.caption ?? null,
+      searchText: normalizeSearchText(post.caption ?? ""),
+      hiddenAt: null,
+      favoriteCount: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.posts.set(newPost.id, newPost);
+
+    for (const tagId of tagIds) {
+      this.postTags.push({ postId: newPost.id, tagId });
+    }
+    this.setPostImages(newPost.id, images);
+
+    return { ...newPost };
+  }
+
+  async updatePost(
+    id: string,
+    userId: string,
+    changes: UpdatePost,
+    tagIds?: string[],
+    images?: InsertPostImage[]
+  ): Promise<Post | undefined> {
+    const post = this.posts.get(id);
+    if (!post || post.userId !== userId) return undefined;
+
+    const definedChanges = Object.fromEntries(
+      Object.entries(changes).filter(([, value]) => value !== undefined)
+    );
+    const updated: Post = {
+      ...post,
+      ...definedChanges,
+      ...(changes.caption !== undefined && {
+        searchText: normalizeSearchText(changes.caption ?? ""),
+      }),
+      updatedAt: new Date(),
+    };
+    this.posts.set(id, updated);
+
+    if (tagIds) {
+      this.postTags = this.postTags.filter((pt) => pt.postId !== id);
+      for (const tagId of tagIds) {
+        this.postTags.push({ postId: id, tagId });
+      }
+    }
+    if (images) {
+      this.setPostImages(id, images);
+    }
+
+    return { ...updated };
+  }
+
+  async deletePost(id: string, userId: string): Promise<boolean> {
+    const post = this.posts.get(id);
+    if (!post || post.userId !== userId) return false;
+
+    // onDelete: cascade 相当
+    this.posts.delete(id);
+    this.postTags = this.postTags.filter((pt) => pt.postId !== id);
+    this.postImages = this.postImages.filter((image) => image.postId !== id);
+    this.favorites = this.favorites.filter((f) => f.postId !== id);
+    this.notifications = this.notifications.filter((n) => n.postId !== id);
+    this.postReports = this.postReports.filter((r) => r.postId !== id);
+    this.comments = this.comments.filter((c) => c.postId !== id);
+    this.collectionPosts = this.collectionPosts.filter(
+      (cp) => cp.postId !== id
+    );
+    // onDelete: set null 相当
+    this.moderationLogs = this.moderationLogs.map((log) =>
+      log.postId === id ? { ...log, postId: null } : log
+    );
+    return true;
+  }
+
+  async getComments(postId: string): Promise<CommentThread[]> {
+    const withUsers = this.comments
+      .filter((c) => c.postId === postId && this.users.has(c.userId))
+      .map((c) => ({ ...c, user: toPublicUser(this.users.get(c.userId)!) }));
+    return withUsers
+      .filter((comment) => !comment.parentId)
+      .map((comment) => ({
+        ...comment,
+        replies: withUsers.filter((reply) => reply.parentId === comment.id),
+      }));
+  }
+
+  async getComment(id: string): Promise<Comment | undefined> {
+    const comment = this.comments.find((c) => c.id === id);
+    return comment && { ...comment };
+  }
+
+  async createComment(
+    postId: string,
+    userId: string,
+    comment: InsertComment
+  ): Promise<Comment> {
+    const created: Comment = {
+      id: randomUUID(),
+      postId,
+      userId,
+      parentId: comment.parentId ?? null,
+      body: comment.body,
+      createdAt: new Date(),
+    };
+    // 追加順 = 古い順
+    this.comments.push(created);
+
+    const post = this.posts.get(postId);
+    const parent = comment.parentId
+      ? await this.getComment(comment.parentId)
+      : undefined;
+    if (post) {
+      this.notify({
+        userId: post.userId,
+        actorId: userId,
+        type: "comment",
+        postId,
+        commentId: created.id,
+      });
+    }
+    // 返信先のコメント主にも知らせる（投稿の持ち主と同じなら 1 件で十分）
+    if (parent && parent.userId !== post?.userId) {
+      this.notify({
+        userId: parent.userId,
+        actorId: userId,
+        type: "reply",
+        postId,
+        commentId: created.id,
+      });
+    }
+    return { ...created };
+  }
+
+  async deleteComment(id: string): Promise<boolean> {
+    const before = this.comments.length;
+    // 返信も消す（onDelete: cascade 相当）
+    this.comments = this.comments.filter(
+      (c) => c.id !== id && c.parentId !== id
+    );
+    const commentIds = new Set(this.comments.map((c) => c.id));
+    this.notifications = this.notifications.filter(
+      (n) => !n.commentId || commentIds.has(n.commentId)
+    );
+    return this.comments.length < before;
+  }
+
+  async followUser(followerId: string, followingId: string): Promise<void> {
+    if (!this.isFollowing(followerId, followingId)) {
+      this.follows.push({ followerId, followingId, createdAt: new Date() });
+    }
+
+    this.notify({
+      userId: followingId,
+      actorId: followerId,
+      type: "follow",
+      dedupeKey: `follow:${followerId}`,
+    });
+  }
+
+  async unfollowUser(followerId: string, followingId: string): Promise<void> {
+    this.follows = this.follows.filter(
+      (f) => !(f.followerId === followerId && f.followingId === followingId)
+    );
+  }
+
+  async getFollowers(
+    userId: string,
+    options: PageOptions = {}
+  ): Promise<UserPage> {
+    return this.followPage(
+      this.follows
+        .filter((f) => f.followingId === userId)
+        .map((f) => ({ createdAt: f.createdAt, id: f.followerId })),
+      options
+    );
+  }
+
+  async getFollowing(
+    userId: string,
+    options: PageOptions = {}
+  ): Promise<UserPage> {
+    return this.followPage(
+      this.follows
+        .filter((f) => f.followerId === userId)
+        .map((f) => ({ createdAt: f.createdAt, id: f.followingId })),
+      options
+    );
+  }
+
+  async addFavorite(userId: string, postId: string): Promise<void> {
+    const post = this.posts.get(postId);
+    if (!this.isFavorited(userId, postId)) {
+      this.favorites.push({ userId, postId, createdAt: new Date() });
+      if (post) post.favoriteCount++;
+    }
+
+    if (post) {
+      this.notify({
+        userId: post.userId,
+        actorId: userId,
+        type: "favorite",
+        postId,
+        dedupeKey: `favorite:${userId}:${postId}`,
+      });
+    }
+  }
+
+  async removeFavorite(userId: string, postId: string): Promise<void> {
+    const post = this.posts.get(postId);
+    if (post && this.isFavorited(userId, postId)) {
+      post.favoriteCount = Math.max(post.favoriteCount - 1, 0);
+    }
+    this.favorites = this.favorites.filter(
+      (f) => !(f.userId === userId && f.postId === postId)
+    );
+  }
+
+  async recountFavorites(postIds?: string[]): Promise<void> {
+    for (const post of this.posts.values()) {
+      if (postIds && !postIds.includes(post.id)) continue;
+      post.favoriteCount = this.favorites.filter(
+        (f) => f.postId === post.id
+      ).length;
+    }
+  }
+
+  async getUserFavorites(
+    userId: string,
+    { limit = 20, cursor, includeHidden }: FavoriteListOptions = {}
+  ): Promise<PostPage> {
+    const isListed = (postId: string) => {
+      const post = this.posts.get(postId);
+      return Boolean(post && (includeHidden || this.isVisibleTo(post, userId)));
+    };
+    const page = keysetPage(
+      this.favorites
+        .filter((f) => f.userId === userId && isListed(f.postId))
+        .map((f) => ({ key: { createdAt: f.createdAt, id: f.postId }, f })),
+      { limit, cursor }
+    );
+    return {
+      posts: page.items.map(({ f }) =>
+        this.toPostWithTags(this.posts.get(f.postId)!, userId)
+      ),
+      nextCursor: page.nextCursor,
+    };
+  }
+
+  async getNotifications(
+    userId: string,
+    { limit = 20, cursor, unreadOnly }: NotificationListOptions = {}
+  ): Promise<NotificationPage> {
+    const page = keysetPage(
+      this.notifications
+        .filter(
+          (n) =>
+            n.userId === userId &&
+            (!unreadOnly || !n.readAt) &&
+            this.users.has(n.actorId)
+        )
+        .map((n) => ({ key: n, n })),
+      { limit, cursor }
+    );
+    return {
+      notifications: page.items.map(({ n }) => ({
+        ...n,
+        actor: toPublicUser(this.users.get(n.actorId)!),
+      })),
+      nextCursor: page.nextCursor,
+    };
+  }
+
+  async getUnreadNotificationCount(userId: string): Promise<number> {
+    return this.notifications.filter((n) => n.userId === userId && !n.readAt)
+      .length;
+  }
+
+  async markNotificationsRead(userId: string, ids?: string[]): Promise<number> {
+    let updated = 0;
+    this.notifications = this.notifications.map((n) => {
+      if (n.userId !== userId || n.readAt) return n;
+      if (ids && !ids.includes(n.id)) return n;
+      updated++;
+      return { ...n, readAt: new Date() };
+    });
+
+    if (updated > 0) publishNotificationEvent({ userId });
+    return updated;
+  }
+
+  async addExcludeTag(userId: string, tagId: string): Promise<void> {
+    const exists = this.userExcludeTags.some(
+      (e) => e.userId === userId && e.tagId === tagId
+    );
+    if (exists) return;
+    this.userExcludeTags.push({ userId, tagId, createdAt: new Date() });
+  }
+
+  async removeExcludeTag(userId: string, tagId: string): Promise<void> {
+    this.userExcludeTags = this.userExcludeTags.filter(
+      (e) => !(e.userId === userId && e.tagId === tagId)
+    );
+  }
+
+  async getUserExcludeTags(userId: string): Promise<Tag[]> {
+    return this.userExcludeTags
+      .filter((e) => e.userId === userId)
+      .map((e) => this.tags.get(e.tagId))
+      .filter((tag): tag is Tag => Boolean(tag))
+      .map((tag) => ({ ...tag }));
+  }
+
+  async setUserExcludeTags(userId: string, tagIds: string[]): Promise<void> {
+    this.userExcludeTags = this.userExcludeTags.filter(
+      (e) => e.userId !== userId
+    );
+    for (const tagId of new Set(tagIds)) {
+      this.userExcludeTags.push({ userId, tagId, createdAt: new Date() });
+    }
+  }
+
+  async createReport(
+    postId: string,
+    reporterId: string,
+    report: InsertReport
+  ): Promise<PostReport> {
+    const created: PostReport = {
+      id: randomUUID(),
+      postId,
+      reporterId,
+      reason: report.reason,
+      note: report.note ?? null,
+      status: "open",
+      resolvedBy: null,
+      resolvedAt: null,
+      createdAt: new Date(),
+    };
+    // 同じユーザーの再通報は置き換える（(postId, reporterId) の一意制約相当）
+    const existing = this.postReports.find(
+      (r) => r.postId === postId && r.reporterId === reporterId
+    );
+    if (existing) created.id = existing.id;
+    this.postReports = [
+      ...this.postReports.filter((r) => r !== existing),
+      created,
+    ];
+    return { ...created };
+  }
+
+  async getModerationQueue({
+    limit = 20,
+    offset = 0,
+  }: OffsetPageOptions = {}): Promise<ModerationQueuePage> {
+    const time = (report: PostReport) => report.createdAt?.getTime() ?? 0;
+    const byPost = new Map<string, PostReport[]>();
+    for (const report of this.postReports) {
+      if (report.status !== "open") continue;
+      byPost.set(report.postId, [...(byPost.get(report.postId) ?? []), report]);
+    }
+
+    const latest = (reports: PostReport[]) => Math.max(...reports.map(time));
+    const ranked = Array.from(byPost.entries())
+      .filter(([postId]) => this.posts.has(postId))
+      .sort(
+        ([aId, a], [bId, b]) =>
+          b.length - a.length ||
+          latest(b) - latest(a) ||
+          (aId < bId ? 1 : aId > bId ? -1 : 0)
+      );
+
+    return {
+      items: ranked.slice(offset, offset + limit).map(([postId, reports]) => ({
+        post: this.toPostWithTags(this.posts.get(postId)!),
+        reports: [...reports].sort((a, b) => time(b) - time(a)),
+      })),
+      nextCursor:
+        ranked.length > offset + limit
+          ? encodeOffsetCursor(offset + limit)
+          : null,
+    };
+  }
+
+  async setPostHidden(
+    postId: string,
+    moderatorId: string,
+    hidden: boolean,
+    reason?: string
+  ): Promise<Post | undefined> {
+    const post = this.posts.get(postId);
+    if (!post) return undefined;
+
+    const updated: Post = { ...post, hiddenAt: hidden ? new Date() : null };
+    this.posts.set(postId, updated);
+    if (hidden) this.closeReports(postId, moderatorId, "resolved");
+
+    this.log({
+      moderatorId,
+      action: hidden ? "hide" : "restore",
+      postId,
+      targetUserId: post.userId,
+      reason: reason ?? null,
+    });
+    return { ...updated };
+  }
+
+  async dismissReports(
+    postId: string,
+    moderatorId: string,
+    reason?: string
+  ): Promise<number> {
+    const dismissed = this.closeReports(postId, moderatorId, "dismissed");
+    if (dismissed === 0) return 0;
+
+    this.log({
+      moderatorId,
+      action: "dismiss_reports",
+      postId,
+      reason: reason ?? null,
+    });
+    return dismissed;
+  }
+
+  async getModerationLogs({
+    limit = 20,
+    offset = 0,
+    postId,
+  }: ModerationLogOptions = {}): Promise<ModerationLogPage> {
+    // log() は末尾に追加するので、逆順にすれば新しい順
+    const logs = this.moderationLogs
+      .filter((log) => !postId || log.postId === postId)
+      .reverse();
+
+    return {
+      logs: logs.slice(offset, offset + limit),
+      nextCursor:
+        logs.length > offset + limit
+          ? encodeOffsetCursor(offset + limit)
+          : null,
+    };
+  }
+
+  async getCollections(userId: string): Promise<CollectionWithCount[]> {
+    return this.collectionsWhere((c) => c.userId === userId);
+  }
+
+  async getCollection(id: string): Promise<CollectionWithCount | undefined> {
+    return this.collectionsWhere((c) => c.id === id)[0];
+  }
+
+  async getCollectionByShareToken(
+    shareToken: string
+  ): Promise<CollectionWithCount | undefined> {
+    return this.collectionsWhere((c) => c.shareToken === shareToken)[0];
+  }
+
+  async createCollection(
+    userId: string,
+    collection: InsertCollection
+  ): Promise<CollectionWithCount> {
+    const now = new Date();
+    const created: Collection = {
+      id: randomUUID(),
+      userId,
+      name: collection.name,
+      description: collection.description ?? null,
+      shareToken: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.collections.set(created.id, created);
+    return (await this.getCollection(created.id))!;
+  }
+
+  async updateCollection(
+    id: string,
+    userId: string,
+    changes: UpdateCollection
+  ): Promise<CollectionWithCount | undefined> {
+    return this.touchCollection(id, userId, changes);
+  }
+
+  async setCollectionShareToken(
+    id: string,
+    userId: string,
+    shareToken: string | null
+  ): Promise<CollectionWithCount | undefined> {
+    return this.touchCollection(id, userId, { shareToken });
+  }
+
+  async deleteCollection(id: string, userId: string): Promise<boolean> {
+    const collection = this.collections.get(id);
+    if (!collection || collection.userId !== userId) return false;
+
+    this.collections.delete(id);
+    this.collectionPosts = this.collectionPosts.filter(
+      (cp) => cp.collectionId !== id
+    );
+    return true;
+  }
+
+  async getCollectionPosts(
+    collectionId: string,
+    {
+      limit = 20,
+      offset = 0,
+      userId,
+      includeHidden,
+    }: CollectionPostListOptions = {}
+  ): Promise<PostPage> {
+    const visible = new Set(
+      this.filterPosts({ userId, includeHidden }).map((post) => post.id)
+    );
+    const postIds = this.collectionPosts
+      .filter(
+        (cp) => cp.collectionId === collectionId && visible.has(cp.postId)
+      )
+      .sort(
+        (a, b) => a.position - b.position || a.postId.localeCompare(b.postId)
+      )
+      .map((cp) => cp.postId);
+
+    return {
+      posts: postIds
+        .slice(offset, offset + limit)
+        .map((id) => this.toPostWithTags(this.posts.get(id)!, userId)),
+      nextCursor:
+        postIds.length > offset + limit
+          ? encodeOffsetCursor(offset + limit)
+          : null,
+    };
+  }
+
+  async addCollectionPost(
+    collectionId: string,
+    postId: string
+  ): Promise<boolean> {
+    const rows = this.collectionPosts.filter(
+      (cp) => cp.collectionId === collectionId
+    );
+    if (rows.some((cp) => cp.postId === postId)) return false;
+
+    this.collectionPosts.push({
+      collectionId,
+      postId,
+      position: Math.max(-1, ...rows.map((cp) => cp.position)) + 1,
+      addedAt: new Date(),
+    });
+    this.bumpCollection(collectionId);
+    return true;
+  }
+
+  async removeCollectionPost(
+    collectionId: string,
+    postId: string
+  ): Promise<boolean> {
+    const before = this.collectionPosts.length;
+    this.collectionPosts = this.collectionPosts.filter(
+      (cp) => !(cp.collectionId === collectionId && cp.postId === postId)
+    );
+    if (this.collectionPosts.length === before) return false;
+
+    this.bumpCollection(collectionId);
+    return true;
+  }
+
+  async reorderCollectionPosts(
+    collectionId: string,
+    postIds: string[]
+  ): Promise<boolean> {
+    const rows = this.collectionPosts.filter(
+      (cp) => cp.collectionId === collectionId
+    );
+
+    // 過不足や重複があれば並べ替えない
+    const requested = new Set(postIds);
+    if (
+      requested.size !== postIds.length ||
+      requested.size !== rows.length ||
+      !rows.every((cp) => requested.has(cp.postId))
+    ) {
+      return false;
+    }
+
+    for (const cp of rows) cp.position = postIds.indexOf(cp.postId);
+    this.bumpCollection(collectionId);
+    return true;
+  }
+
+  async getZoningPresets(userId: string): Promise<ZoningPresetWithTags[]> {
+    return Array.from(this.zoningPresets.values())
+      .filter((preset) => preset.userId === userId)
+      .sort(
+        (a, b) =>
+          (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0) ||
+          a.id.localeCompare(b.id)
+      )
+      .map((preset) => this.withPresetTags(preset));
+  }
+
+  async createZoningPreset(
+    userId: string,
+    preset: InsertZoningPreset,
+    tagIds: string[]
+  ): Promise<ZoningPresetWithTags> {
+    const created: ZoningPreset = {
+      id: randomUUID(),
+      userId,
+      name: preset.name,
+      mode: preset.mode ?? "hide",
+      isActive: false,
+      createdAt: new Date(),
+    };
+    this.zoningPresets.set(created.id, created);
+    this.setPresetTags(created.id, tagIds);
+    return this.withPresetTags(created);
+  }
+
+  async updateZoningPreset(
+    id: string,
+    userId: string,
+    changes: UpdateZoningPreset,
+    tagIds?: string[]
+  ): Promise<ZoningPresetWithTags | undefined> {
+    const preset = this.zoningPresets.get(id);
+    if (!preset || preset.userId !== userId) return undefined;
+
+    const updated: ZoningPreset = {
+      ...preset,
+      ...(changes.name !== undefined && { name: changes.name }),
+      ...(changes.mode !== undefined && { mode: changes.mode }),
+    };
+    this.zoningPresets.set(id, updated);
+    if (tagIds) this.setPresetTags(id, tagIds);
+    return this.withPresetTags(updated);
+  }
+
+  async deleteZoningPreset(id: string, userId: string): Promise<boolean> {
+    const preset = this.zoningPresets.get(id);
+    if (!preset || preset.userId !== userId) return false;
+
+    this.zoningPresets.delete(id);
+    this.zoningPresetTags = this.zoningPresetTags.filter(
+      (pt) => pt.presetId !== id
+    );
+    return true;
+  }
+
+  async setActiveZoningPreset(
+    userId: string,
+    presetId: string | null
+  ): Promise<boolean> {
+    if (presetId && this.zoningPresets.get(presetId)?.userId !== userId) {
+      return false;
+    }
+
+    for (const preset of this.zoningPresets.values()) {
+      if (preset.userId === userId) preset.isActive = preset.id === presetId;
+    }
+    return true;
+  }
+
+  async validatePostTags(tagIds: string[]): Promise<boolean> {
+    if (tagIds.length === 0) return false;
+
+    const tagResults = tagIds.map((id) => this.tags.get(id));
+
+    // Check if all tag IDs exist
+    if (tagResults.some((tag) => !tag)) return false;
+
+    // Check if at least one classification tag is present
+    return tagResults.some((tag) => tag!.category === "分類");
+  }
+
+  // DatabaseStorage.postFilters と同じ絞り込み
+  private filterPosts({
+    tagIds,
+    tagQuery,
+    excludeTagIds,
+    userId,
+    authorId,
+    followedBy,
+    includeHidden,
+  }: PostFilterOptions): Post[] {
+    const userExcludedTagIds = userId ? this.hiddenZoningTagIds(userId) : [];
+
+    return Array.from(this.posts.values()).filter((post) => {
+      if (!includeHidden && !this.isVisibleTo(post, userId)) return false;
+      if (authorId && post.userId !== authorId) return false;
+      if (followedBy && !this.isFollowing(followedBy, post.userId)) {
+        return false;
+      }
+
+      const postTagIds = this.getPostTagIds(post.id);
+
+      // タグでの AND フィルタ（各タグは子孫タグでも一致）
+      const hasAny = (ids: string[]) =>
+        this.withDescendants(ids).some((tagId) => postTagIds.includes(tagId));
+      if (tagIds && !tagIds.every((tagId) => hasAny([tagId]))) {
+        return false;
+      }
+
+      if (
+        tagQuery &&
+        !matchesTagQuery(this.expandTagQuery(tagQuery), postTagIds)
+      ) {
+        return false;
+      }
+
+      // 除外タグ（クエリ指定 + ユーザーのゾーニング）
+      return !hasAny([...(excludeTagIds ?? []), ...userExcludedTagIds]);
+    });
+  }
+
+  private visiblePostIds(): Set<string> {
+    return new Set(
+      Array.from(this.posts.values())
+        .filter((post) => !post.hiddenAt)
+        .map((post) => post.id)
+    );
+  }
+
+  // 非表示でない投稿、または閲覧ユーザー自身の投稿
+  private isVisibleTo(post: Post, userId: string | undefined): boolean {
+    return !post.hiddenAt || post.userId === userId;
+  }
+
+  // 未対応の通報を閉じて、閉じた件数を返す
+  private closeReports(
+    postId: string,
+    moderatorId: string,
+    status: "resolved" | "dismissed"
+  ): number {
+    let closed = 0;
+    this.postReports = this.postReports.map((report) => {
+      if (report.postId !== postId || report.status !== "open") return report;
+      closed++;
+      return {
+        ...report,
+        status,
+        resolvedBy: moderatorId,
+        resolvedAt: new Date(),
+      };
+    });
+    return closed;
+  }
+
+  private log(
+    entry: Pick<ModerationLog, "moderatorId" | "action"> &
+      Partial<Pick<ModerationLog, "postId" | "targetUserId" | "reason">>
+  ): void {
+    this.moderationLogs.push({
+      id: randomUUID(),
+      postId: null,
+      targetUserId: null,
+      reason: null,
+      createdAt: new Date(),
+      ...entry,
+    });
+  }
+
+  // DatabaseStorage と同じく更新の新しい順
+  private collectionsWhere(
+    predicate: (collection: Collection) => boolean
+  ): CollectionWithCount[] {
+    return Array.from(this.collections.values())
+      .filter(predicate)
+      .sort(
+        (a, b) =>
+          (b.updatedAt?.getTime() ?? 0) - (a.updatedAt?.getTime() ?? 0) ||
+          b.id.localeCompare(a.id)
+      )
+      .map((collection) => ({
+        ...collection,
+        user: toPublicUser(this.users.get(collection.userId)!),
+        postCount: this.collectionPosts.filter(
+          (cp) => cp.collectionId === collection.id
+        ).length,
+      }));
+  }
+
+  private touchCollection(
+    id: string,
+    userId: string,
+    changes: UpdateCollection & { shareToken?: string | null }
+  ): CollectionWithCount | undefined {
+    const collection = this.collections.get(id);
+    if (!collection || collection.userId !== userId) return undefined;
+
+    this.collections.set(id, {
+      ...collection,
+      ...(changes.name !== undefined && { name: changes.name }),
+      ...(changes.description !== undefined && {
+        description: changes.description,
+      }),
+      ...(changes.shareToken !== undefined && {
+        shareToken: changes.shareToken,
+      }),
+      updatedAt: new Date(),
+    });
+    return this.collectionsWhere((c) => c.id === id)[0];
+  }
+
+  private bumpCollection(collectionId: string) {
+    const collection = this.collections.get(collectionId);
+    if (collection) collection.updatedAt = new Date();
+  }
+
+  private withPresetTags(preset: ZoningPreset): ZoningPresetWithTags {
+    return {
+      ...preset,
+      tags: this.zoningPresetTags
+        .filter((pt) => pt.presetId === preset.id)
+        .map((pt) => this.tags.get(pt.tagId))
+        .filter((tag): tag is Tag => Boolean(tag))
+        .sort(
+          (a, b) =>
+            categoryOrder(a.category) - categoryOrder(b.category) ||
+            a.name.localeCompare(b.name)
+        ),
+    };
+  }
+
+  private setPresetTags(presetId: string, tagIds: string[]) {
+    this.zoningPresetTags = this.zoningPresetTags.filter(
+      (pt) => pt.presetId !== presetId
+    );
+    for (const tagId of new Set(tagIds)) {
+      this.zoningPresetTags.push({ presetId, tagId });
+    }
+  }
+
+  private activeZoningPreset(userId: string): ZoningPresetWithTags | undefined {
+    const preset = Array.from(this.zoningPresets.values()).find(
+      (p) => p.userId === userId && p.isActive
+    );
+    return preset && this.withPresetTags(preset);
+  }
+
+  // hide モードで隠すタグ。有効なプリセットがなければ userExcludeTags
+  private hiddenZoningTagIds(userId: string): string[] {
+    const active = this.activeZoningPreset(userId);
+    if (active) {
+      return active.mode === "hide" ? active.tags.map((tag) => tag.id) : [];
+    }
+    return this.userExcludeTags
+      .filter((e) => e.userId === userId)
+      .map((e) => e.tagId);
+  }
+
+  // 自身を含む子孫タグの ID
+  private withDescendants(tagIds: string[]): string[] {
+    const result = new Set(tagIds);
+    let frontier = tagIds;
+    while (frontier.length > 0) {
+      frontier = Array.from(this.tags.values())
+        .filter((tag) => tag.parentId && frontier.includes(tag.parentId))
+        .map((tag) => tag.id)
+        .filter((id) => !result.has(id));
+      frontier.forEach((id) => result.add(id));
+    }
+    return Array.from(result);
+  }
+
+  private expandTagQuery(query: ResolvedTagQuery): ResolvedTagQuery {
+    switch (query.type) {
+      case "tags":
+        return { type: "tags", tagIds: this.withDescendants(query.tagIds) };
+      case "and":
+      case "or":
+        return {
+          type: query.type,
+          children: query.children.map((child) => this.expandTagQuery(child)),
+        };
+      case "not":
+        return { type: "not", child: this.expandTagQuery(query.child) };
+    }
+  }
+
+  private getPostTagIds(postId: string): string[] {
+    return this.postTags
+      .filter((pt) => pt.postId === postId)
+      .map((pt) => pt.tagId);
+  }
+
+  private setPostImages(postId: string, images: InsertPostImage[]): void {
+    const now = new Date();
+    this.postImages = [
+      ...this.postImages.filter((image) => image.postId !== postId),
+      ...images.map((image, position) => ({
+        id: randomUUID(),
+        postId,
+        position,
+        imageUrl: image.imageUrl,
+        imageWidth: image.imageWidth ?? null,
+        imageHeight: image.imageHeight ?? null,
+        thumbnailUrl: image.thumbnailUrl ?? null,
+        mediumUrl: image.mediumUrl ?? null,
+        angleTagId: image.angleTagId ?? null,
+        createdAt: now,
+      })),
+    ];
+  }
+
+  // DatabaseStorage.notify と同じく自分自身の操作と dedupeKey の重複は通知しない
+  private notify(values: InsertNotification): void {
+    if (values.userId === values.actorId) return;
+    const duplicate =
+      values.dedupeKey &&
+      this.notifications.some(
+        (n) => n.userId === values.userId && n.dedupeKey === values.dedupeKey
+      );
+    if (duplicate) return;
+
+    const created: Notification = {
+      id: randomUUID(),
+      userId: values.userId,
+      actorId: values.actorId,
+      type: values.type,
+      postId: values.postId ?? null,
+      commentId: values.commentId ?? null,
+      dedupeKey: values.dedupeKey ?? null,
+      readAt: null,
+      createdAt: new Date(),
+    };
+    this.notifications.push(created);
+    publishNotificationEvent({ userId: created.userId, notification: created });
+  }
+
+  private followPage(keys: KeysetKey[], options: PageOptions): UserPage {
+    const page = keysetPage(
+      keys.filter((key) => this.users.has(key.id)).map((key) => ({ key })),
+      options
+    );
+    return {
+      users: page.items.map(({ key }) => toPublicUser(this.users.get(key.id)!)),
+      nextCursor: page.nextCursor,
+    };
+  }
+
+  private isFollowing(followerId: string, followingId: string): boolean {
+    return this.follows.some(
+      (f) => f.followerId === followerId && f.followingId === followingId
+    );
+  }
+
+  private isFavorited(userId: string, postId: string): boolean {
+    return this.favorites.some(
+      (f) => f.userId === userId && f.postId === postId
+    );
+  }
+
+  private toPostWithTags(post: Post, userId?: string): PostWithTags {
+    const postTagIds = this.getPostTagIds(post.id);
+    const active = userId ? this.activeZoningPreset(userId) : undefined;
+    // blur モードでは一致したプリセットのタグを付けて返す
+    const zonedBy =
+      active?.mode === "blur"
+        ? active.tags.filter((tag) =>
+            this.withDescendants([tag.id]).some((id) => postTagIds.includes(id))
+          )
+        : [];
+    const images = this.postImages
+      .filter((image) => image.postId === post.id)
+      .sort((a, b) => a.position - b.position);
+    return {
+      ...toPublicPost(post),
+      user: toPublicUser(this.users.get(post.userId)!),
+      tags: postTagIds
+        .map((tagId) => this.tags.get(tagId))
+        .filter((tag): tag is Tag => Boolean(tag)),
+      images: images.length > 0 ? images : [legacyCoverImage(post)],
+      isFavorited: userId ? this.isFavorited(userId, post.id) : false,
+      isEdited: isEdited(post),
+      commentCount: this.comments.filter((c) => c.postId === post.id).length,
+      ...(zonedBy.length > 0 && { zonedBy }),
+    };
+  }
+}
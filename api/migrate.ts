@@ -0,0 +1,189 @@
+import type { PoolClient } from "@neondatabase/serverless";
+import { getPool } from "./db";
+import { logger } from "./logger";
+import { normalizeSearchText } from "./search";
+
+// drizzle-kit push の前に流す SQL（npm run db:migrate）。
+// push では作れない拡張や、制約を足す前に直しておくデータをここに置く。
+// 適用済みかどうかは記録しないので、何度流しても同じ結果になるように書く
+type Migration = {
+  name: string;
+  up: (client: PoolClient) => Promise<void>;
+};
+
+// search_text の埋め戻しで 1 回に更新する行数
+const backfillBatchSize = 500;
+
+const migrations: Migration[] = [
+  {
+    // posts.search_text の gin_trgm_ops インデックスと searchPosts の word_similarity が使う
+    name: "create-pg-trgm",
+    up: async (client) => {
+      await client.query("CREATE EXTENSION IF NOT EXISTS pg_trgm");
+    },
+  },
+  {
+    // tags_name_category の一意インデックスを作る前に、同じ (name, category) のタグを
+    // いちばん古いものにまとめる（参照はまとめ先に付け替え、重複する組は捨てる）
+    name: "dedupe-tags",
+    up: async (client) => {
+      await client.query(`
+        CREATE TEMP TABLE tag_duplicates ON COMMIT DROP AS
+        SELECT id, keep_id FROM (
+          SELECT id, first_value(id) OVER (
+            PARTITION BY name, category ORDER BY created_at NULLS LAST, id
+          ) AS keep_id
+          FROM tags
+        ) ranked
+        WHERE id <> keep_id
+      `);
+
+      // (owner, tag_id) の組を持つ表
+      const pairTables = [
+        ["post_tags", "post_id"],
+        ["user_exclude_tags", "user_id"],
+        ["zoning_preset_tags", "preset_id"],
+      ] as const;
+      for (const [table, owner] of pairTables) {
+        if (!(await tableExists(client, table))) continue;
+        await client.query(`
+          INSERT INTO ${table} (${owner}, tag_id)
+          SELECT DISTINCT t.${owner}, d.keep_id
+          FROM ${table} t JOIN tag_duplicates d ON t.tag_id = d.id
+          WHERE NOT EXISTS (
+            SELECT 1 FROM ${table} kept
+            WHERE kept.${owner} = t.${owner} AND kept.tag_id = d.keep_id
+          )
+        `);
+        await client.query(`
+          DELETE FROM ${table} t USING tag_duplicates d WHERE t.tag_id = d.id
+        `);
+      }
+
+      // 1 列だけで参照している表
+      const references = [
+        ["tag_aliases", "tag_id"],
+        ["post_images", "angle_tag_id"],
+        ["tags", "parent_id"],
+      ] as const;
+      for (const [table, column] of references) {
+        if (!(await columnExists(client, table, column))) continue;
+        await client.query(`
+          UPDATE ${table} t SET ${column} = d.keep_id
+          FROM tag_duplicates d WHERE t.${column} = d.id
+        `);
+      }
+      if (await columnExists(client, "tags", "parent_id")) {
+        // 重複どうしが親子だった場合に自分自身を親にしない
+        await client.query(
+          "UPDATE tags SET parent_id = NULL WHERE parent_id = id"
+        );
+      }
+
+      await client.query(`
+        DELETE FROM tags t USING tag_duplicates d WHERE t.id = d.id
+      `);
+    },
+  },
+  {
+    // 検索は search_text だけを見るので、列を足す前からある投稿のキャプションも正規化して入れる。
+    // 正規化（NFKC・かな）は SQL では再現できないので normalizeSearchText で少しずつ埋める
+    name: "backfill-search-text",
+    up: async (client) => {
+      await client.query(
+        "ALTER TABLE posts ADD COLUMN IF NOT EXISTS search_text text"
+      );
+      for (;;) {
+        const { rows } = await client.query<{
+          id: string;
+          caption: string | null;
+        }>(
+          "SELECT id, caption FROM posts WHERE search_text IS NULL LIMIT $1",
+          [backfillBatchSize]
+        );
+        if (rows.length === 0) break;
+
+        await client.query(
+          `UPDATE posts SET search_text = v.search_text
+          FROM unnest($1::uuid[], $2::text[]) AS v(id, search_text)
+          WHERE posts.id = v.id`,
+          [
+            rows.map((row) => row.id),
+            rows.map((row) => normalizeSearchText(row.caption ?? "")),
+          ]
+        );
+      }
+    },
+  },
+  {
+    // favorites_pk を一意にする前に、同じ (user_id, post_id) のお気に入りを 1 件にする。
+    // 重複していた分 favorite_count もずれているので数え直す（recountFavorites と同じ）
+    name: "dedupe-favorites",
+    up: async (client) => {
+      await client.query(`
+        DELETE FROM favorites f USING favorites kept
+        WHERE f.user_id = kept.user_id AND f.post_id = kept.post_id
+          AND f.ctid > kept.ctid
+      `);
+      await client.query(
+        "ALTER TABLE posts ADD COLUMN IF NOT EXISTS favorite_count integer NOT NULL DEFAULT 0"
+      );
+      await client.query(`
+        UPDATE posts SET favorite_count = (
+          SELECT count(*) FROM favorites WHERE favorites.post_id = posts.id
+        )::int
+      `);
+    },
+  },
+];
+
+// 古いデータベースにはまだ無い表・列もあるので、あるものだけ直す
+async function tableExists(client: PoolClient, table: string) {
+  const { rows } = await client.query(
+    "SELECT to_regclass($1) IS NOT NULL AS exists",
+    [`public.${table}`]
+  );
+  return Boolean(rows[0]?.exists);
+}
+
+async function columnExists(
+  client: PoolClient,
+  table: string,
+  column: string
+) {
+  const { rows } = await client.query(
+    `SELECT EXISTS (
+      SELECT 1 FROM information_schema.columns
+      WHERE table_schema = 'public' AND table_name = $1 AND column_name = $2
+    ) AS exists`,
+    [table, column]
+  );
+  return Boolean(rows[0]?.exists);
+}
+
+async function runMigrations() {
+  const client = await getPool().connect();
+  try {
+    for (const migration of migrations) {
+      await client.query("BEGIN");
+      try {
+        await migration.up(client);
+        await client.query("COMMIT");
+      } catch (err) {
+        await client.query("ROLLBACK");
+        throw err;
+      }
+      logger.info("Migration applied", { migration: migration.name });
+    }
+  } finally {
+    client.release();
+  }
+}
+
+runMigrations()
+  .then(() => getPool().end())
+  .catch((err) => {
+    logger.error("Migration failed", { err });
+    process.exitCode = 1;
+    return getPool().end();
+  });
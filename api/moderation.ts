@@ -0,0 +1,188 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { insertReportSchema, userRoleEnum } from "./schema";
+import { isAuthenticated, requireRole } from "./auth";
+import { offsetPageQuery } from "./pagination";
+import { validate, idParams, userIdParams } from "./validation";
+import { ValidationError, NotFoundError } from "./errors";
+import {
+  postReportSchema,
+  postWithTagsSchema,
+  moderationQueuePageSchema,
+  moderationLogPageSchema,
+  userSchema,
+  countOf,
+} from "./responses";
+
+const reportSchema = insertReportSchema.extend({
+  note: z.string().trim().max(500).optional(),
+});
+
+const moderationActionSchema = z.object({
+  reason: z.string().trim().max(500).optional(),
+});
+
+const userRoleSchema = z.object({
+  role: z.enum(userRoleEnum.enumValues),
+});
+
+const isModerator = requireRole("moderator", "admin");
+
+// 通報・モデレーションキュー・非表示/復元・監査ログ
+export function registerModerationRoutes(app: Express) {
+  app.post(
+    "/api/posts/:id/report",
+    isAuthenticated,
+    validate({
+      summary: "Report a post",
+      params: idParams,
+      body: reportSchema,
+      response: postReportSchema,
+      status: 201,
+    }),
+    async (req: any, res) => {
+      const { id } = req.params;
+      const userId = req.user.claims.sub;
+      const report = req.body;
+
+      // 通報者から見えない投稿（非表示済みなど）は存在しない扱い
+      const post = await storage.getPost(id, userId);
+      if (!post) {
+        throw new NotFoundError("Post not found");
+      }
+      if (post.userId === userId) {
+        throw new ValidationError("You cannot report your own post");
+      }
+
+      res.status(201).json(await storage.createReport(id, userId, report));
+    }
+  );
+
+  app.get(
+    "/api/moderation/queue",
+    isAuthenticated,
+    isModerator,
+    validate({
+      summary: "Posts with open reports, most reported first",
+      query: offsetPageQuery,
+      response: moderationQueuePageSchema,
+    }),
+    async (req: any, res) => {
+      const { limit, cursor: offset } = req.query;
+      res.json(await storage.getModerationQueue({ limit, offset }));
+    }
+  );
+
+  app.post(
+    "/api/moderation/posts/:id/hide",
+    isAuthenticated,
+    isModerator,
+    validate({
+      summary: "Hide a post and close its reports",
+      params: idParams,
+      body: moderationActionSchema,
+      response: postWithTagsSchema,
+    }),
+    async (req: any, res) => {
+      const { id } = req.params;
+      const { reason } = req.body;
+
+      const userId = req.user.claims.sub;
+      const post = await storage.setPostHidden(id, userId, true, reason);
+      if (!post) {
+        throw new NotFoundError("Post not found");
+      }
+      // タグや投稿者を含めた形で返す（response の postWithTagsSchema に合わせる）
+      res.json(await storage.getPost(id, userId, true));
+    }
+  );
+
+  app.post(
+    "/api/moderation/posts/:id/restore",
+    isAuthenticated,
+    isModerator,
+    validate({
+      summary: "Restore a hidden post",
+      params: idParams,
+      body: moderationActionSchema,
+      response: postWithTagsSchema,
+    }),
+    async (req: any, res) => {
+      const { id } = req.params;
+      const { reason } = req.body;
+
+      const userId = req.user.claims.sub;
+      const post = await storage.setPostHidden(id, userId, false, reason);
+      if (!post) {
+        throw new NotFoundError("Post not found");
+      }
+      res.json(await storage.getPost(id, userId, true));
+    }
+  );
+
+  // 投稿はそのままにして未対応の通報を却下する
+  app.post(
+    "/api/moderation/posts/:id/dismiss",
+    isAuthenticated,
+    isModerator,
+    validate({
+      summary: "Dismiss a post's open reports",
+      params: idParams,
+      body: moderationActionSchema,
+      response: countOf("dismissed"),
+    }),
+    async (req: any, res) => {
+      const { id } = req.params;
+      const { reason } = req.body;
+
+      const dismissed = await storage.dismissReports(
+        id,
+        req.user.claims.sub,
+        reason
+      );
+      res.json({ dismissed });
+    }
+  );
+
+  app.get(
+    "/api/moderation/logs",
+    isAuthenticated,
+    isModerator,
+    validate({
+      summary: "Moderation audit log, newest first",
+      query: offsetPageQuery.extend({ postId: z.uuid().optional() }),
+      response: moderationLogPageSchema,
+    }),
+    async (req: any, res) => {
+      const { limit, cursor: offset, postId } = req.query;
+      res.json(await storage.getModerationLogs({ limit, offset, postId }));
+    }
+  );
+
+  app.put(
+    "/api/admin/users/:id/role",
+    isAuthenticated,
+    requireRole("admin"),
+    validate({
+      summary: "Change a user's role",
+      params: userIdParams,
+      body: userRoleSchema,
+      response: userSchema,
+    }),
+    async (req: any, res) => {
+      const { id } = req.params;
+      const { role } = req.body;
+      // 管理者が自分を降格して誰も管理できなくなるのを防ぐ
+      if (id === req.user.claims.sub) {
+        throw new ValidationError("You cannot change your own role");
+      }
+
+      const user = await storage.setUserRole(id, role, req.user.claims.sub);
+      if (!user) {
+        throw new NotFoundError("User not found");
+      }
+      res.json(user);
+    }
+  );
+}
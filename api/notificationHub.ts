@@ -0,0 +1,28 @@
+import { EventEmitter } from "events";
+import type { Notification } from "./schema";
+
+// 通知の作成・既読をストリーム接続中のクライアントへ伝える（同一プロセス内のみ）。
+// 別インスタンスで起きた変化は、ストリームが定期的に送る未読数で追いつく
+export type NotificationEvent = {
+  userId: string;
+  // 新しい通知。既読化のときは undefined
+  notification?: Notification | undefined;
+};
+
+const emitter = new EventEmitter();
+// 接続ごとにリスナーを登録するので上限警告を出さない
+emitter.setMaxListeners(0);
+
+export function publishNotificationEvent(event: NotificationEvent): void {
+  emitter.emit(event.userId, event);
+}
+
+export function subscribeNotificationEvents(
+  userId: string,
+  listener: (event: NotificationEvent) => void
+): () => void {
+  emitter.on(userId, listener);
+  return () => {
+    emitter.off(userId, listener);
+  };
+}
@@ -0,0 +1,120 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { isAuthenticated } from "./auth";
+import { pageQuery } from "./pagination";
+import { subscribeNotificationEvents } from "./notificationHub";
+import { validate } from "./validation";
+import { logger } from "./logger";
+import { notificationPageSchema, countOf } from "./responses";
+
+const markReadSchema = z.object({
+  // 省略するとすべて既読
+  ids: z.array(z.uuid()).max(100).optional(),
+});
+
+// 別インスタンスでの変化にも追いつけるよう、heartbeat ごとに未読数を送り直す
+const streamHeartbeatMs = 30 * 1000;
+
+// お気に入り・コメント・フォローの通知
+export function registerNotificationRoutes(app: Express) {
+  app.get(
+    "/api/notifications",
+    isAuthenticated,
+    validate({
+      summary: "Your notifications, newest first",
+      query: pageQuery.extend({ unread: z.enum(["true", "false"]).optional() }),
+      response: notificationPageSchema,
+    }),
+    async (req: any, res) => {
+      const userId = req.user.claims.sub;
+      const { unread, ...page } = req.query;
+      res.json(
+        await storage.getNotifications(userId, {
+          ...page,
+          unreadOnly: unread === "true",
+        })
+      );
+    }
+  );
+
+  app.get(
+    "/api/notifications/unread-count",
+    isAuthenticated,
+    validate({
+      summary: "Number of unread notifications",
+      response: countOf("count"),
+    }),
+    async (req: any, res) => {
+      const userId = req.user.claims.sub;
+      res.json({ count: await storage.getUnreadNotificationCount(userId) });
+    }
+  );
+
+  app.post(
+    "/api/notifications/read",
+    isAuthenticated,
+    validate({
+      summary: "Mark notifications as read",
+      body: markReadSchema,
+      response: countOf("updated"),
+    }),
+    async (req: any, res) => {
+      const userId = req.user.claims.sub;
+      const { ids } = req.body;
+
+      const updated = await storage.markNotificationsRead(userId, ids);
+      res.json({ updated });
+    }
+  );
+
+  // Server-Sent Events: "notification"（新着）と "unread"（未読数）を送る
+  app.get(
+    "/api/notifications/stream",
+    isAuthenticated,
+    // text/event-stream なのでレスポンスの JSON スキーマはない
+    validate({ summary: "Server-Sent Events for new notifications" }),
+    async (req: any, res) => {
+      const userId = req.user.claims.sub;
+
+      res.set({
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+        "X-Accel-Buffering": "no",
+      });
+      res.flushHeaders();
+
+      const send = (event: string, data: unknown) => {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      };
+      const sendUnreadCount = async () => {
+        try {
+          send("unread", {
+            count: await storage.getUnreadNotificationCount(userId),
+          });
+        } catch (error) {
+          logger.error("Error streaming unread count", { error });
+        }
+      };
+
+      const unsubscribe = subscribeNotificationEvents(
+        userId,
+        ({ notification }) => {
+          if (notification) send("notification", notification);
+          void sendUnreadCount();
+        }
+      );
+      const heartbeat = setInterval(
+        () => void sendUnreadCount(),
+        streamHeartbeatMs
+      );
+      req.on("close", () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      });
+
+      await sendUnreadCount();
+    }
+  );
+}
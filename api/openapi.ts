@@ -0,0 +1,243 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { isAuthenticated } from "./auth";
+import {
+  validate,
+  routeSpecOf,
+  validationErrorSchema,
+  errorSchema,
+  type RouteSpec,
+} from "./validation";
+
+type JsonSchema = Record<string, any>;
+
+type Operation = {
+  method: string;
+  path: string;
+  spec: RouteSpec;
+  authenticated: boolean;
+};
+
+// Date は JSON では ISO 8601 の文字列になる
+const jsonSchemaOptions = {
+  unrepresentable: "any",
+  override: ({ zodSchema, jsonSchema }) => {
+    if (zodSchema._zod.def.type === "date") {
+      jsonSchema.type = "string";
+      jsonSchema.format = "date-time";
+    }
+  },
+} satisfies Parameters<typeof z.toJSONSchema>[1];
+
+// validate() 付きで登録されたルートから OpenAPI 3.1 のドキュメントを組み立てる
+export function buildOpenApiDocument(app: Express) {
+  const components: Record<string, JsonSchema> = {};
+
+  // .meta({ id }) 付きのスキーマは components.schemas に出して $ref で参照する
+  const toSchema = (schema: z.ZodType, io: "input" | "output"): JsonSchema => {
+    const { $schema, $defs, ...json } = z.toJSONSchema(schema, {
+      ...jsonSchemaOptions,
+      io,
+    }) as JsonSchema;
+    for (const [name, def] of Object.entries<JsonSchema>($defs ?? {})) {
+      const { id, ...rest } = def;
+      components[name] = withComponentRefs(rest);
+    }
+    if (typeof json.id === "string") {
+      const { id, ...rest } = json;
+      components[id] = withComponentRefs(rest);
+      return { $ref: `#/components/schemas/${id}` };
+    }
+    return withComponentRefs(json);
+  };
+
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const { method, path, spec, authenticated } of collectOperations(app)) {
+    const openApiPath = path.replace(/:(\w+)/g, "{$1}");
+    const parameters = [
+      ...parametersOf(spec.params, "path", toSchema),
+      ...parametersOf(spec.query, "query", toSchema),
+    ];
+    // params を定義していないルートのパスパラメータは文字列とする
+    for (const match of path.matchAll(/:(\w+)/g)) {
+      const name = match[1]!;
+      if (!parameters.some((p) => p.in === "path" && p.name === name)) {
+        parameters.push({
+          name,
+          in: "path",
+          required: true,
+          schema: { type: "string" },
+        });
+      }
+    }
+
+    const responses: Record<string, unknown> = {
+      [spec.status ?? 200]: {
+        description: spec.summary,
+        ...(spec.response && {
+          content: {
+            "application/json": { schema: toSchema(spec.response, "output") },
+          },
+        }),
+      },
+    };
+    if (spec.params || spec.query || spec.body) {
+      responses[400] = jsonResponse(
+        "Invalid request",
+        toSchema(validationErrorSchema, "output")
+      );
+    }
+    if (authenticated) {
+      responses[401] = jsonResponse(
+        "Not signed in",
+        toSchema(errorSchema, "output")
+      );
+    }
+    // それ以外のエラーも errorHandler（api/errors.ts）が同じ形で返す
+    responses.default = jsonResponse("Error", toSchema(errorSchema, "output"));
+
+    paths[openApiPath] ??= {};
+    paths[openApiPath][method] = {
+      summary: spec.summary,
+      operationId: operationIdOf(method, path),
+      tags: [tagOf(path)],
+      ...(parameters.length > 0 && { parameters }),
+      ...(spec.body && {
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": { schema: toSchema(spec.body, "input") },
+          },
+        },
+      }),
+      ...(spec.files && {
+        requestBody: {
+          required: true,
+          content: {
+            "multipart/form-data": { schema: filesSchema(spec.files) },
+          },
+        },
+      }),
+      // scope のあるルートはアクセストークン（Bearer）でも呼べる
+      ...(authenticated && {
+        security: [
+          { session: [] },
+          ...(spec.scope ? [{ bearer: [spec.scope] }] : []),
+        ],
+      }),
+      responses,
+    };
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: { title: "Animal reference API", version: "1.0.0" },
+    paths,
+    components: {
+      schemas: components,
+      securitySchemes: {
+        session: { type: "apiKey", in: "cookie", name: "connect.sid" },
+        bearer: {
+          type: "http",
+          scheme: "bearer",
+          description:
+            "Personal access token (pat_...) from POST /api/user/tokens",
+        },
+      },
+    },
+  };
+}
+
+export function registerOpenApiRoutes(app: Express) {
+  // ルートの登録が終わってから最初のリクエストで組み立てる
+  let document: ReturnType<typeof buildOpenApiDocument> | undefined;
+
+  app.get(
+    "/api/openapi.json",
+    validate({
+      summary: "OpenAPI document for this API",
+      response: z.record(z.string(), z.unknown()),
+    }),
+    (req, res) => {
+      document ??= buildOpenApiDocument(app);
+      res.json(document);
+    }
+  );
+}
+
+function collectOperations(app: Express): Operation[] {
+  return app.router.stack.flatMap((layer) => {
+    const route = layer.route;
+    const spec = route?.stack
+      .map((handler) => routeSpecOf(handler.handle))
+      .find(Boolean);
+    if (!route || !spec) return [];
+
+    const authenticated = route.stack.some(
+      (handler) => handler.handle === isAuthenticated
+    );
+    const methods = new Set(route.stack.map((handler) => handler.method));
+    return Array.from(methods).map((method) => ({
+      method,
+      path: route.path,
+      spec,
+      authenticated,
+    }));
+  });
+}
+
+function parametersOf(
+  schema: z.ZodType | undefined,
+  location: "path" | "query",
+  toSchema: (schema: z.ZodType, io: "input") => JsonSchema
+) {
+  if (!schema) return [];
+  const { properties = {}, required = [] } = toSchema(schema, "input");
+  return Object.entries<JsonSchema>(properties).map(([name, property]) => ({
+    name,
+    in: location,
+    required: location === "path" || required.includes(name),
+    schema: property,
+  }));
+}
+
+function filesSchema(names: string[]): JsonSchema {
+  return {
+    type: "object",
+    properties: Object.fromEntries(
+      names.map((name) => [name, { type: "string", format: "binary" }])
+    ),
+    required: names,
+  };
+}
+
+function withComponentRefs(schema: JsonSchema): JsonSchema {
+  return JSON.parse(
+    JSON.stringify(schema).replaceAll('"#/$defs/', '"#/components/schemas/')
+  );
+}
+
+function jsonResponse(description: string, schema: JsonSchema) {
+  return { description, content: { "application/json": { schema } } };
+}
+
+// /api/admin/tags/:id → "admin"、/api/posts/:id/comments → "posts"
+function tagOf(path: string): string {
+  return path.split("/")[2] ?? "api";
+}
+
+// GET /api/posts/:id/comments → getPostsByIdComments
+function operationIdOf(method: string, path: string): string {
+  const words = path
+    .replace(/^\/api\//, "")
+    .split(/[/.-]/)
+    .filter(Boolean)
+    .map((segment) =>
+      segment.startsWith(":") ? `by-${segment.slice(1)}` : segment
+    )
+    .flatMap((segment) => segment.split("-"));
+  return (
+    method +
+    words.map((word) => word[0]!.toUpperCase() + word.slice(1)).join("")
+  );
+}
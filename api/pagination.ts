@@ -0,0 +1,104 @@
+import { z } from "zod";
+
+// Keyset pagination cursor for post listings: (createdAt, id) of the last item
+export type PostCursor = {
+  createdAt: string;
+  id: string;
+};
+
+export function encodeCursor(cursor: PostCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+// DatabaseStorage は timestamp::text（"YYYY-MM-DD HH:MM:SS.ffffff"）を、
+// MemoryStorage は toISOString() をカーソルに入れる
+const cursorTimestampPattern =
+  /^(\d{4}-\d{2}-\d{2})[T ](\d{2}:\d{2}:\d{2})(\.\d{1,6})?Z?$/;
+
+const cursorSchema = z.object({ createdAt: z.string(), id: z.uuid() });
+
+// 不正なカーソルは undefined を返す（ルート側で 400 にする）。
+// createdAt はそのまま SQL で ::timestamp に渡すので、実在する日時だけを
+// "YYYY-MM-DDTHH:MM:SS(.ffffff)Z" にそろえて返す（マイクロ秒は keyset の比較に要る）
+export function decodeCursor(value: string): PostCursor | undefined {
+  try {
+    const parsed = cursorSchema.safeParse(
+      JSON.parse(Buffer.from(value, "base64url").toString())
+    );
+    if (!parsed.success) return undefined;
+    const match = cursorTimestampPattern.exec(parsed.data.createdAt);
+    if (!match) return undefined;
+    const [, date, time, fraction = ""] = match;
+    // 2月30日や 25時のように Date が繰り上げてしまう値は弾く
+    const seconds = `${date}T${time}`;
+    const parsedTime = new Date(`${seconds}Z`);
+    if (
+      Number.isNaN(parsedTime.getTime()) ||
+      parsedTime.toISOString().slice(0, seconds.length) !== seconds
+    ) {
+      return undefined;
+    }
+    return { createdAt: `${seconds}${fraction}Z`, id: parsed.data.id };
+  } catch {
+    return undefined;
+  }
+}
+
+// 関連度順など keyset にできない並びはオフセットをカーソルに包む
+export function encodeOffsetCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ offset })).toString("base64url");
+}
+
+export function decodeOffsetCursor(value: string): number | undefined {
+  try {
+    const parsed = JSON.parse(Buffer.from(value, "base64url").toString());
+    return Number.isInteger(parsed?.offset) && parsed.offset >= 0
+      ? parsed.offset
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// limit クエリ。1〜max の整数
+export function limitQuery(fallback = 20, max = 100) {
+  return z.coerce.number().int().min(1).max(max).default(fallback);
+}
+
+export const cursorQuery = z
+  .string()
+  .optional()
+  .transform((value, ctx) => {
+    if (!value) return undefined;
+    const cursor = decodeCursor(value);
+    if (!cursor) {
+      ctx.addIssue({ code: "custom", message: "Invalid cursor" });
+      return z.NEVER;
+    }
+    return cursor;
+  });
+
+// 未指定は 0
+export const offsetCursorQuery = z
+  .string()
+  .optional()
+  .transform((value, ctx) => {
+    if (!value) return 0;
+    const offset = decodeOffsetCursor(value);
+    if (offset === undefined) {
+      ctx.addIssue({ code: "custom", message: "Invalid cursor" });
+      return z.NEVER;
+    }
+    return offset;
+  });
+
+export const pageQuery = z.object({
+  limit: limitQuery(),
+  cursor: cursorQuery,
+});
+
+// cursor はオフセットに変換される
+export const offsetPageQuery = z.object({
+  limit: limitQuery(),
+  cursor: offsetCursorQuery,
+});
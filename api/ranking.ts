@@ -0,0 +1,13 @@
+// trending の並び: お気に入り数を投稿からの経過時間で減衰させる
+//   score = favoriteCount / (経過時間[h] + 2)^gravity
+// DatabaseStorage は同じ式を SQL で計算する
+export const trendingGravity = 1.5;
+
+export function trendingScore(
+  favoriteCount: number,
+  createdAt: Date | null,
+  now = Date.now()
+): number {
+  const hours = (now - (createdAt?.getTime() ?? now)) / (60 * 60 * 1000);
+  return favoriteCount / Math.pow(hours + 2, trendingGravity);
+}
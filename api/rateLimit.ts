@@ -0,0 +1,151 @@
+import type { RequestHandler } from "express";
+import { lt, sql } from "drizzle-orm";
+import { rateLimits } from "./schema";
+import { getDb, type Database } from "./db";
+import { logger } from "./logger";
+import dotenv from "dotenv";
+dotenv.config({ path: ".env" });
+
+export type RateLimitHit = {
+  // 現在のウィンドウ内での回数（今回を含む）
+  count: number;
+  resetAt: Date;
+};
+
+// 固定ウィンドウのカウンタ。インスタンスをまたいで数えるなら Postgres を使う
+export interface RateLimitStore {
+  hit(key: string, windowMs: number): Promise<RateLimitHit>;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private windows = new Map<string, RateLimitHit>();
+
+  async hit(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    const current = this.windows.get(key);
+    if (current && current.resetAt.getTime() > now) {
+      current.count++;
+      return { ...current };
+    }
+
+    this.prune(now);
+    const started = { count: 1, resetAt: new Date(now + windowMs) };
+    this.windows.set(key, started);
+    return { ...started };
+  }
+
+  // 期限切れのキーを捨てる（新しいウィンドウを始めるときだけ走らせる）
+  private prune(now: number): void {
+    for (const [key, window] of this.windows) {
+      if (window.resetAt.getTime() <= now) this.windows.delete(key);
+    }
+  }
+}
+
+export class PostgresRateLimitStore implements RateLimitStore {
+  constructor(private readonly db: Database) {}
+
+  async hit(key: string, windowMs: number): Promise<RateLimitHit> {
+    const resetAt = new Date(Date.now() + windowMs);
+    const expired = sql`${rateLimits.resetAt} <= now()`;
+    const [row] = await this.db
+      .insert(rateLimits)
+      .values({ key, count: 1, resetAt })
+      .onConflictDoUpdate({
+        target: rateLimits.key,
+        set: {
+          count: sql`CASE WHEN ${expired} THEN 1 ELSE ${rateLimits.count} + 1 END`,
+          resetAt: sql`CASE WHEN ${expired} THEN excluded.reset_at ELSE ${rateLimits.resetAt} END`,
+        },
+      })
+      .returning({ count: rateLimits.count, resetAt: rateLimits.resetAt });
+
+    // 期限切れの行はたまに掃除する
+    if (Math.random() < 0.01) {
+      await this.db
+        .delete(rateLimits)
+        .where(lt(rateLimits.resetAt, new Date()));
+    }
+    return row!;
+  }
+}
+
+export type RateLimitStoreDriver = "memory" | "postgres";
+
+export function createRateLimitStore(
+  driver: RateLimitStoreDriver = process.env.RATE_LIMIT_STORE === "postgres"
+    ? "postgres"
+    : "memory"
+): RateLimitStore {
+  if (driver === "postgres") {
+    return new PostgresRateLimitStore(getDb());
+  }
+  return new MemoryRateLimitStore();
+}
+
+export const rateLimitStore = createRateLimitStore();
+
+export type RateLimitOptions = {
+  // カウンタのキーに使う名前（ルートごとに別の予算にする）
+  name: string;
+  limit: number;
+  windowMs: number;
+  store?: RateLimitStore | undefined;
+};
+
+// ログインユーザーはユーザー ID、未ログインは IP ごとに数える。
+// isAuthenticated より後に置くと req.user が使える
+export function rateLimit({
+  name,
+  limit,
+  windowMs,
+  store = rateLimitStore,
+}: RateLimitOptions): RequestHandler {
+  const windowSeconds = Math.ceil(windowMs / 1000);
+
+  return async (req: any, res, next) => {
+    const subject = req.user?.id ? `user:${req.user.id}` : `ip:${req.ip}`;
+
+    let hit: RateLimitHit;
+    try {
+      hit = await store.hit(`${name}:${subject}`, windowMs);
+    } catch (error) {
+      // カウンタが使えないときは止めずに通す
+      logger.warn("Error checking rate limit", { error });
+      return next();
+    }
+
+    const resetSeconds = Math.max(
+      0,
+      Math.ceil((hit.resetAt.getTime() - Date.now()) / 1000)
+    );
+    res.set({
+      "RateLimit-Policy": `${limit};w=${windowSeconds}`,
+      "RateLimit-Limit": String(limit),
+      "RateLimit-Remaining": String(Math.max(0, limit - hit.count)),
+      "RateLimit-Reset": String(resetSeconds),
+    });
+
+    if (hit.count > limit) {
+      res.set("Retry-After", String(resetSeconds));
+      return res.status(429).json({
+        message: "Too many requests",
+        retryAfter: resetSeconds,
+      });
+    }
+    next();
+  };
+}
+
+const minute = 60 * 1000;
+const hour = 60 * minute;
+
+// 書き込み系ルートの予算
+export const writeLimits = {
+  createPost: rateLimit({ name: "posts", limit: 30, windowMs: hour }),
+  upload: rateLimit({ name: "upload", limit: 60, windowMs: hour }),
+  createTag: rateLimit({ name: "tags", limit: 20, windowMs: hour }),
+  favorite: rateLimit({ name: "favorites", limit: 120, windowMs: minute }),
+  // ログイン・登録・再設定メール。未ログインなので IP ごと
+  auth: rateLimit({ name: "auth", limit: 10, windowMs: 15 * minute }),
+};
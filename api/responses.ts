@@ -0,0 +1,167 @@
+import { z } from "zod";
+import { createSelectSchema } from "drizzle-zod";
+import {
+  users,
+  tags,
+  tagAliases,
+  posts,
+  postImages,
+  comments,
+  favorites,
+  follows,
+  notifications,
+  postReports,
+  moderationLogs,
+  zoningPresets,
+  collections,
+  personalAccessTokens,
+  tokenScopes,
+} from "./schema";
+
+// API レスポンスの形。OpenAPI の生成にだけ使い、実行時には検証しない
+// schema.ts の "Extended types for API responses" と揃えておくこと
+
+const count = z.number().int();
+
+const page = <T extends z.ZodType>(key: string, item: T) =>
+  z.object({ [key]: z.array(item), nextCursor: z.string().nullable() });
+
+export const userSchema = createSelectSchema(users).meta({ id: "User" });
+
+export const publicUserSchema = z
+  .object({
+    id: z.string(),
+    displayName: z.string(),
+    profileImageUrl: z.string().nullable(),
+  })
+  .meta({ id: "PublicUser" });
+
+export const userProfileSchema = z
+  .object({
+    ...publicUserSchema.shape,
+    bio: z.string().nullable(),
+    postCount: count,
+    favoriteCount: count,
+    followerCount: count,
+    followingCount: count,
+    isFollowing: z.boolean(),
+    createdAt: z.date().nullable(),
+  })
+  .meta({ id: "UserProfile" });
+
+export const userPageSchema = page("users", publicUserSchema).meta({
+  id: "UserPage",
+});
+
+const tagColumns = createSelectSchema(tags);
+
+export const tagSchema = tagColumns.meta({ id: "Tag" });
+
+export const tagWithCountSchema = tagColumns
+  .extend({ postCount: count })
+  .meta({ id: "TagWithCount" });
+
+export const tagAliasSchema = createSelectSchema(tagAliases).meta({
+  id: "TagAlias",
+});
+
+export const postImageSchema = createSelectSchema(postImages).meta({
+  id: "PostImage",
+});
+
+// toPublicPost と同じ形（search_text / hidden_at は返さない）
+const postColumns = createSelectSchema(posts)
+  .omit({ searchText: true, hiddenAt: true })
+  .extend({ isHidden: z.boolean() });
+
+export const postSchema = postColumns.meta({ id: "Post" });
+
+export const postWithTagsSchema = postColumns
+  .extend({
+    tags: z.array(tagSchema),
+    images: z.array(postImageSchema),
+    user: publicUserSchema,
+    isFavorited: z.boolean().optional(),
+    isEdited: z.boolean(),
+    commentCount: count,
+    zonedBy: z.array(tagSchema).optional(),
+  })
+  .meta({ id: "PostWithTags" });
+
+export const postPageSchema = page("posts", postWithTagsSchema).meta({
+  id: "PostPage",
+});
+
+const commentWithUser = createSelectSchema(comments).extend({
+  user: publicUserSchema,
+});
+
+export const commentWithUserSchema = commentWithUser.meta({
+  id: "CommentWithUser",
+});
+
+export const commentThreadSchema = commentWithUser
+  .extend({ replies: z.array(commentWithUserSchema) })
+  .meta({ id: "CommentThread" });
+
+export const notificationPageSchema = page(
+  "notifications",
+  createSelectSchema(notifications)
+    .extend({ actor: publicUserSchema })
+    .meta({ id: "NotificationWithActor" })
+).meta({ id: "NotificationPage" });
+
+export const postReportSchema = createSelectSchema(postReports).meta({
+  id: "PostReport",
+});
+
+export const moderationQueuePageSchema = page(
+  "items",
+  z
+    .object({ post: postWithTagsSchema, reports: z.array(postReportSchema) })
+    .meta({ id: "ModerationQueueItem" })
+).meta({ id: "ModerationQueuePage" });
+
+export const moderationLogPageSchema = page(
+  "logs",
+  createSelectSchema(moderationLogs).meta({ id: "ModerationLog" })
+).meta({ id: "ModerationLogPage" });
+
+export const zoningPresetSchema = createSelectSchema(zoningPresets)
+  .extend({ tags: z.array(tagSchema) })
+  .meta({ id: "ZoningPreset" });
+
+export const collectionSchema = createSelectSchema(collections)
+  .extend({ user: publicUserSchema, postCount: count })
+  .meta({ id: "Collection" });
+
+export const accessTokenSchema = createSelectSchema(personalAccessTokens, {
+  scopes: z.array(z.enum(tokenScopes)),
+})
+  .omit({ tokenHash: true })
+  .meta({ id: "AccessToken" });
+
+export const userExportSchema = z
+  .object({
+    exportedAt: z.date(),
+    profile: userSchema,
+    posts: z.array(postWithTagsSchema),
+    favorites: z.array(
+      createSelectSchema(favorites).pick({ postId: true, createdAt: true })
+    ),
+    excludeTags: z.array(tagSchema),
+    comments: z.array(createSelectSchema(comments)),
+    following: z.array(
+      createSelectSchema(follows).pick({ followingId: true, createdAt: true })
+    ),
+    zoningPresets: z.array(zoningPresetSchema),
+    collections: z.array(
+      collectionSchema.extend({ postIds: z.array(z.string()) })
+    ),
+  })
+  .meta({ id: "UserExport" });
+
+export const successSchema = z.object({ success: z.literal(true) });
+
+// 件数だけを返す操作（{ deleted: 3 } など）
+export const countOf = (key: string) => z.object({ [key]: count });
@@ -1,354 +1,1013 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { insertPostSchema, insertTagSchema } from "./schema";
+import { storage, postSorts, type PostFilterOptions } from "./storage";
+import {
+  insertPostSchema,
+  insertPostImageSchema,
+  insertTagSchema,
+  insertTagAliasSchema,
+  updatePostSchema,
+  updateProfileSchema,
+  coverOf,
+  toPublicPost,
+  tagCategoryEnum,
+  type InsertPostImage,
+} from "./schema";
 import { z } from "zod";
-import { setupAuth, isAuthenticated } from "./auth";
+import {
+  setupAuth,
+  isAuthenticated,
+  requireRole,
+  canModerate,
+  viewerId,
+} from "./auth";
+import { registerLocalAuthRoutes } from "./localAuth";
+import { registerModerationRoutes } from "./moderation";
+import { registerCommentRoutes } from "./comments";
+import { registerNotificationRoutes } from "./notifications";
+import { registerZoningRoutes } from "./zoning";
+import { registerCollectionRoutes } from "./collections";
+import { registerAccessTokenRoutes } from "./accessTokens";
+import { registerAccountRoutes } from "./account";
 import dotenv from "dotenv";
 import { multerMemoryStorage } from ".";
+import { imageStore } from "./imageStore";
+import { writeLimits } from "./rateLimit";
+import { isCuratedCategory, validateTagName } from "./tagNames";
+import { processUpload } from "./imagePipeline";
+import { parseTagQuery, resolveTagQuery } from "./tagQuery";
+import {
+  cursorQuery,
+  limitQuery,
+  offsetCursorQuery,
+  pageQuery,
+} from "./pagination";
+import {
+  validate,
+  idListQuery,
+  idParams,
+  userIdParams,
+} from "./validation";
+import {
+  tagSchema,
+  tagWithCountSchema,
+  tagAliasSchema,
+  postSchema,
+  postWithTagsSchema,
+  postPageSchema,
+  userSchema,
+  userProfileSchema,
+  userPageSchema,
+  successSchema,
+  countOf,
+} from "./responses";
+import { registerOpenApiRoutes } from "./openapi";
+import { logger } from "./logger";
+import {
+  errorHandler,
+  ValidationError,
+  ForbiddenError,
+  NotFoundError,
+} from "./errors";
 dotenv.config({ path: ".env" });
 
+const maxPostImages = 10;
+
+const unusedTagGraceMs = 24 * 60 * 60 * 1000;
+
+const postImagesSchema = z
+  .array(insertPostImageSchema)
+  .min(1, "At least one image is required")
+  .max(maxPostImages, `At most ${maxPostImages} images are allowed`);
+
+// images を省略した場合は imageUrl などの単一画像フィールドを 1 枚目として扱う（旧クライアント互換）
 const createPostWithTagsSchema = insertPostSchema
   .omit({ userId: true })
+  .partial({ imageUrl: true })
+  .extend({
+    tagIds: z.array(z.uuid()).min(1, "At least one tag is required"),
+    images: postImagesSchema.optional(),
+  })
+  .refine((data) => data.images !== undefined || data.imageUrl, {
+    message: "imageUrl or images is required",
+  });
+
+const categoryQuery = z.enum(tagCategoryEnum.enumValues).optional();
+
+// GET /api/posts 系の絞り込み。q はタグクエリ（q=犬|猫 角度:横 -牙）
+const postFilterQuery = z.object({
+  tagIds: idListQuery,
+  excludeTagIds: idListQuery,
+  q: z.string().optional(),
+});
+
+const postListQuery = postFilterQuery
   .extend({
-    tagIds: z.array(z.string()).min(1, "At least one tag is required"),
+    sort: z.enum(postSorts).default("new"),
+    limit: limitQuery(),
+    cursor: z.string().optional(),
+  })
+  .transform(({ cursor, ...query }, ctx) => {
+    // new は keyset、popular / trending はオフセットのカーソル
+    if (query.sort === "new") {
+      const page = cursorQuery.safeParse(cursor);
+      if (page.success) return { ...query, cursor: page.data };
+    } else {
+      const page = offsetCursorQuery.safeParse(cursor);
+      if (page.success) return { ...query, offset: page.data };
+    }
+    ctx.addIssue({
+      code: "custom",
+      message: "Invalid cursor",
+      path: ["cursor"],
+    });
+    return z.NEVER;
   });
 
+const uploadResultSchema = z.object({
+  ok: z.literal(true),
+  secure_url: z.string(),
+  imageWidth: z.number().int(),
+  imageHeight: z.number().int(),
+  mediumUrl: z.string(),
+  thumbnailUrl: z.string(),
+});
+
+const updatePostWithTagsSchema = updatePostSchema
+  .extend({
+    tagIds: z
+      .array(z.uuid())
+      .min(1, "At least one tag is required")
+      .optional(),
+    images: postImagesSchema.optional(),
+  })
+  .refine(
+    (data) =>
+      data.caption !== undefined ||
+      data.tagIds !== undefined ||
+      data.images !== undefined,
+    { message: "Nothing to update" }
+  );
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
   await setupAuth(app);
+  registerLocalAuthRoutes(app);
 
   // Initialize default tags
   await initializeDefaultTags();
 
+  registerModerationRoutes(app);
+  registerCommentRoutes(app);
+  registerNotificationRoutes(app);
+  registerZoningRoutes(app);
+  registerCollectionRoutes(app);
+  registerAccessTokenRoutes(app);
+  registerAccountRoutes(app);
+  registerOpenApiRoutes(app);
+
   // Tags routes
-  app.get("/api/tags", async (req, res) => {
-    try {
+  app.get(
+    "/api/tags",
+    validate({
+      summary: "List tags",
+      query: z.object({ category: categoryQuery }),
+      response: z.array(tagSchema),
+    }),
+    async (req: any, res) => {
       const { category } = req.query;
-      let tags;
+      const tags = category
+        ? await storage.getTagsByCategory(category)
+        : await storage.getAllTags();
+
+      res.json(tags);
+    }
+  );
+
+  // タグごとの投稿数（?category= で絞り込み）
+  app.get(
+    "/api/tags/stats",
+    validate({
+      summary: "Post counts per tag",
+      query: z.object({ category: categoryQuery }),
+      response: z.array(tagWithCountSchema),
+    }),
+    async (req: any, res) => {
+      res.json(await storage.getTagStats(req.query.category));
+    }
+  );
+
+  // 投稿時の補完候補: 選択済みのタグ（?tagIds=）とよく一緒に付くタグ
+  app.get(
+    "/api/tags/suggestions",
+    validate({
+      summary: "Tag suggestions for the tags already selected",
+      query: z.object({
+        category: categoryQuery,
+        tagIds: idListQuery,
+        limit: limitQuery(10, 50),
+      }),
+      response: z.array(tagWithCountSchema),
+    }),
+    async (req: any, res) => {
+      const { category, tagIds = [], limit } = req.query;
+
+      // まだ何も選んでいなければ、よく使われているタグを出す
+      const suggestions =
+        tagIds.length > 0
+          ? await storage.getCooccurringTags(tagIds, { category, limit })
+          : (await storage.getTagStats(category))
+              .filter((tag) => tag.postCount > 0)
+              .slice(0, limit);
+
+      res.json(suggestions);
+    }
+  );
 
-      if (category && typeof category === "string") {
-        tags = await storage.getTagsByCategory(category as any);
-      } else {
-        tags = await storage.getAllTags();
+  app.get(
+    "/api/tags/:id/related",
+    validate({
+      summary: "Tags that often appear together with a tag",
+      params: idParams,
+      query: z.object({ category: categoryQuery, limit: limitQuery(10, 50) }),
+      response: z.array(tagWithCountSchema),
+    }),
+    async (req: any, res) => {
+      const { id } = req.params;
+      if (!(await storage.getTag(id))) {
+        throw new NotFoundError("Tag not found");
       }
 
-      res.json(tags);
-    } catch (error) {
-      console.error("Error fetching tags:", error);
-      res.status(500).json({ message: "Failed to fetch tags" });
+      const related = await storage.getCooccurringTags([id], req.query);
+      res.json(related);
     }
-  });
+  );
+
+  app.post(
+    "/api/tags",
+    isAuthenticated,
+    writeLimits.createTag,
+    validate({
+      summary: "Create a tag, or return the existing tag with that name",
+      scope: "tags:write",
+      body: insertTagSchema,
+      response: tagSchema,
+    }),
+    async (req: any, res) => {
+      const tagData = req.body;
+      // 分類・角度・パーツは管理者が用意したものだけを使う
+      if (isCuratedCategory(tagData.category) && req.user.role !== "admin") {
+        throw new ForbiddenError(
+          `Only admins can create ${tagData.category} tags`
+        );
+      }
 
-  app.post("/api/tags", isAuthenticated, async (req, res) => {
-    try {
-      const tagData = insertTagSchema.parse(req.body);
-      const tag = await storage.createTag(tagData);
+      const name = validateTagName(tagData.name, tagData.category);
+      // 同名のタグ（別名を含む）があればそれを返す
+      const tag = await storage.getOrCreateTag(
+        name,
+        tagData.category,
+        tagData.reading ?? undefined
+      );
       res.json(tag);
-    } catch (error) {
-      console.error("Error creating tag:", error);
-      res.status(400).json({ message: "Invalid tag data" });
     }
-  });
+  );
 
-  // Posts routes
-  app.get("/api/posts", async (req: any, res) => {
-    try {
-      const { limit = 20, offset = 0, tagIds, excludeTagIds } = req.query;
-
-      const userId = req.user?.claims?.sub;
-      const parsedTagIds = tagIds
-        ? Array.isArray(tagIds)
-          ? tagIds
-          : [tagIds]
-        : undefined;
-
-      const parsedExcludeTagIds = excludeTagIds
-        ? Array.isArray(excludeTagIds)
-          ? excludeTagIds
-          : [excludeTagIds]
-        : undefined;
-
-      const posts = await storage.getPosts(
-        parseInt(limit),
-        parseInt(offset),
-        parsedTagIds,
-        userId,
-        parsedExcludeTagIds // ← ここで渡す
+  app.get(
+    "/api/tags/:id/aliases",
+    validate({
+      summary: "List a tag's aliases",
+      params: idParams,
+      response: z.array(tagAliasSchema),
+    }),
+    async (req: any, res) => {
+      const aliases = await storage.getTagAliases(req.params.id);
+      res.json(aliases);
+    }
+  );
+
+  // Tag administration (aliases, hierarchy, merge)
+  app.post(
+    "/api/admin/tags/:id/aliases",
+    isAuthenticated,
+    requireRole("admin"),
+    validate({
+      summary: "Add an alias to a tag",
+      params: idParams,
+      // カテゴリ省略時は正規タグと同じカテゴリの別名にする
+      body: insertTagAliasSchema.partial({ category: true }),
+      response: tagAliasSchema,
+    }),
+    async (req: any, res) => {
+      const tag = await storage.getTag(req.params.id);
+      if (!tag) {
+        throw new NotFoundError("Tag not found");
+      }
+
+      const alias = await storage.createTagAlias(
+        { ...req.body, category: req.body.category ?? tag.category },
+        tag.id
       );
+      res.json(alias);
+    }
+  );
 
-      res.json(posts);
-    } catch (error) {
-      console.error("Error fetching posts:", error);
-      res.status(500).json({ message: "Failed to fetch posts" });
+  app.delete(
+    "/api/admin/tag-aliases/:id",
+    isAuthenticated,
+    requireRole("admin"),
+    validate({
+      summary: "Delete a tag alias",
+      params: idParams,
+      response: successSchema,
+    }),
+    async (req: any, res) => {
+      const success = await storage.deleteTagAlias(req.params.id);
+      if (!success) {
+        throw new NotFoundError("Alias not found");
+      }
+      res.json({ success: true });
     }
-  });
+  );
+
+  app.put(
+    "/api/admin/tags/:id/parent",
+    isAuthenticated,
+    requireRole("admin"),
+    validate({
+      summary: "Set or clear a tag's parent",
+      params: idParams,
+      body: z.object({ parentId: z.uuid().nullable() }),
+      response: tagSchema,
+    }),
+    async (req: any, res) => {
+      const { id } = req.params;
+      const { parentId } = req.body;
+
+      if (parentId !== null) {
+        if (!(await storage.getTag(parentId))) {
+          throw new NotFoundError("Parent tag not found");
+        }
+        // 自分自身や子孫を親にすると循環する
+        const descendantIds = await storage.getTagDescendantIds(id);
+        if (descendantIds.includes(parentId)) {
+          throw new ValidationError("A tag cannot be its own ancestor");
+        }
+      }
+
+      const tag = await storage.setTagParent(id, parentId);
+      if (!tag) {
+        throw new NotFoundError("Tag not found");
+      }
+      res.json(tag);
+    }
+  );
+
+  // 使われなくなった自由タグを掃除する。作成直後（投稿前）のタグは残す
+  app.post(
+    "/api/admin/tags/gc",
+    isAuthenticated,
+    requireRole("admin"),
+    validate({
+      summary: "Delete free tags that are no longer used",
+      response: countOf("deleted"),
+    }),
+    async (req: any, res) => {
+      const deleted = await storage.deleteUnusedFreeTags(
+        new Date(Date.now() - unusedTagGraceMs)
+      );
+      res.json({ deleted });
+    }
+  );
+
+  // favoriteCount を favorites から数え直す（列の追加直後のバックフィル用）
+  app.post(
+    "/api/admin/posts/recount-favorites",
+    isAuthenticated,
+    requireRole("admin"),
+    validate({
+      summary: "Recount favoriteCount for every post",
+      response: successSchema,
+    }),
+    async (req: any, res) => {
+      await storage.recountFavorites();
+      res.json({ success: true });
+    }
+  );
 
-  app.get("/api/posts/:id", async (req: any, res) => {
-    try {
+  app.post(
+    "/api/admin/tags/:id/merge",
+    isAuthenticated,
+    requireRole("admin"),
+    validate({
+      summary: "Merge a tag into another and keep its name as an alias",
+      params: idParams,
+      body: z.object({ targetTagId: z.uuid() }),
+      response: tagSchema,
+    }),
+    async (req: any, res) => {
       const { id } = req.params;
-      const userId = req.user?.claims?.sub;
+      const { targetTagId } = req.body;
+      if (targetTagId === id) {
+        throw new ValidationError("A different targetTagId is required");
+      }
 
-      const post = await storage.getPost(id, userId);
+      const descendantIds = await storage.getTagDescendantIds(id);
+      if (descendantIds.includes(targetTagId)) {
+        throw new ValidationError("Cannot merge a tag into its own descendant");
+      }
+
+      const tag = await storage.mergeTags(id, targetTagId);
+      if (!tag) {
+        throw new NotFoundError("Tag not found");
+      }
+      res.json(tag);
+    }
+  );
+
+  // Posts routes
+  app.get(
+    "/api/posts",
+    validate({
+      summary: "List posts",
+      query: postListQuery,
+      response: postPageSchema,
+    }),
+    async (req: any, res) => {
+      const { tagIds, excludeTagIds, q, ...page } = req.query;
+      const result = await storage.getPosts({
+        ...page,
+        ...(await parsePostFilterQuery(req.query)),
+        userId: viewerId(req),
+        includeHidden: canModerate(req.user),
+      });
+
+      res.json(result);
+    }
+  );
+
+  app.get(
+    "/api/posts/:id",
+    validate({
+      summary: "Get a post",
+      params: idParams,
+      response: postWithTagsSchema,
+    }),
+    async (req: any, res) => {
+      const { id } = req.params;
+      const userId = viewerId(req);
+
+      const post = await storage.getPost(id, userId, canModerate(req.user));
 
       if (!post) {
-        return res.status(404).json({ message: "Post not found" });
+        throw new NotFoundError("Post not found");
       }
 
       res.json(post);
-    } catch (error) {
-      console.error("Error fetching post:", error);
-      res.status(500).json({ message: "Failed to fetch post" });
     }
-  });
+  );
+
+  // Search route (caption / tag name, kana-insensitive)
+  app.get(
+    "/api/search",
+    validate({
+      summary: "Search posts by caption and tag names",
+      query: z.object({
+        q: z.string().trim().min(1),
+        limit: limitQuery(),
+        cursor: offsetCursorQuery,
+        excludeTagIds: idListQuery,
+      }),
+      response: postPageSchema,
+    }),
+    async (req: any, res) => {
+      const { q, limit, cursor: offset, excludeTagIds } = req.query;
+      const userId = viewerId(req);
 
-  app.post("/api/posts", isAuthenticated, async (req: any, res) => {
-    try {
+      const result = await storage.searchPosts(q, {
+        limit,
+        offset,
+        excludeTagIds,
+        userId,
+        includeHidden: canModerate(req.user),
+      });
+
+      res.json(result);
+    }
+  );
+
+  app.post(
+    "/api/posts",
+    isAuthenticated,
+    writeLimits.createPost,
+    validate({
+      summary: "Create a post",
+      scope: "posts:write",
+      body: createPostWithTagsSchema,
+      response: postSchema,
+    }),
+    async (req: any, res) => {
       const userId = req.user.claims.sub;
-      const { tagIds, ...postData } = createPostWithTagsSchema.parse(req.body);
+      const { tagIds, images, ...postData } = req.body;
+      const gallery = images ?? [
+        coverOf({ ...postData, imageUrl: postData.imageUrl! }),
+      ];
 
       // Validate that tags include required classification tag
       const isValid = await storage.validatePostTags(tagIds);
       if (!isValid) {
-        return res.status(400).json({
-          message:
-            "Invalid tags. At least one classification tag (分類) is required.",
-        });
+        throw new ValidationError(
+          "Invalid tags. At least one classification tag (分類) is required."
+        );
       }
 
-      const post = await storage.createPost({ ...postData, userId }, tagIds);
+      if (!(await validateImageAngleTags(gallery))) {
+        throw new ValidationError(
+          "Invalid image tags. Each image tag must be an angle (角度)."
+        );
+      }
 
-      res.json(post);
-    } catch (error) {
-      console.error("Error creating post:", error);
-      if (error instanceof z.ZodError) {
-        return res
-          .status(400)
-          .json({ message: "Invalid post data", errors: error });
+      // 先頭の画像をカバーとして posts 側にも持たせる
+      const post = await storage.createPost(
+        { ...postData, ...coverOf(gallery[0]!), userId },
+        tagIds,
+        gallery
+      );
+
+      res.json(toPublicPost(post));
+    }
+  );
+
+  app.patch(
+    "/api/posts/:id",
+    isAuthenticated,
+    validate({
+      summary: "Edit your own post",
+      scope: "posts:write",
+      params: idParams,
+      body: updatePostWithTagsSchema,
+      response: postWithTagsSchema,
+    }),
+    async (req: any, res) => {
+      const { id } = req.params;
+      const userId = req.user.claims.sub;
+      const { tagIds, images, ...changes } = req.body;
+
+      // タグを差し替える場合も作成時と同じ条件（分類タグ必須）を満たすこと
+      if (tagIds) {
+        const isValid = await storage.validatePostTags(tagIds);
+        if (!isValid) {
+          throw new ValidationError(
+            "Invalid tags. At least one classification tag (分類) is required."
+          );
+        }
+      }
+
+      if (images && !(await validateImageAngleTags(images))) {
+        throw new ValidationError(
+          "Invalid image tags. Each image tag must be an angle (角度)."
+        );
+      }
+
+      const updated = await storage.updatePost(
+        id,
+        userId,
+        images ? { ...changes, ...coverOf(images[0]!) } : changes,
+        tagIds,
+        images
+      );
+
+      if (!updated) {
+        throw new NotFoundError("Post not found or unauthorized");
       }
-      res.status(500).json({ message: "Failed to create post" });
+
+      res.json(await storage.getPost(id, userId));
     }
-  });
+  );
 
-  app.delete("/api/posts/:id", isAuthenticated, async (req: any, res) => {
-    try {
+  app.delete(
+    "/api/posts/:id",
+    isAuthenticated,
+    validate({
+      summary: "Delete your own post",
+      scope: "posts:write",
+      params: idParams,
+      response: successSchema,
+    }),
+    async (req: any, res) => {
       const { id } = req.params;
       const userId = req.user.claims.sub;
 
       const success = await storage.deletePost(id, userId);
 
       if (!success) {
-        return res
-          .status(404)
-          .json({ message: "Post not found or unauthorized" });
+        throw new NotFoundError("Post not found or unauthorized");
       }
 
       res.json({ success: true });
-    } catch (error) {
-      console.error("Error deleting post:", error);
-      res.status(500).json({ message: "Failed to delete post" });
     }
-  });
+  );
 
   // Favorites routes
-  app.post("/api/favorites", isAuthenticated, async (req: any, res) => {
-    try {
+  app.post(
+    "/api/favorites",
+    isAuthenticated,
+    writeLimits.favorite,
+    validate({
+      summary: "Favorite a post",
+      scope: "favorites:write",
+      body: z.object({ postId: z.uuid() }),
+      response: successSchema,
+    }),
+    async (req: any, res) => {
       const userId = req.user.claims.sub;
       const { postId } = req.body;
 
-      if (!postId) {
-        return res.status(400).json({ message: "postId is required" });
-      }
-
       await storage.addFavorite(userId, postId);
       res.json({ success: true });
-    } catch (error) {
-      console.error("Error adding favorite:", error);
-      res.status(500).json({ message: "Failed to add favorite" });
     }
-  });
+  );
 
   app.delete(
     "/api/favorites/:postId",
     isAuthenticated,
+    validate({
+      summary: "Unfavorite a post",
+      scope: "favorites:write",
+      params: z.object({ postId: z.uuid() }),
+      response: successSchema,
+    }),
     async (req: any, res) => {
-      try {
-        const userId = req.user.claims.sub;
-        const { postId } = req.params;
+      const userId = req.user.claims.sub;
+      const { postId } = req.params;
 
-        await storage.removeFavorite(userId, postId);
-        res.json({ success: true });
-      } catch (error) {
-        console.error("Error removing favorite:", error);
-        res.status(500).json({ message: "Failed to remove favorite" });
-      }
+      await storage.removeFavorite(userId, postId);
+      res.json({ success: true });
     }
   );
 
-  app.get("/api/user/favorites", isAuthenticated, async (req: any, res) => {
-    try {
+  app.get(
+    "/api/user/favorites",
+    isAuthenticated,
+    validate({
+      summary: "Your favorites, newest first",
+      scope: "favorites:read",
+      query: pageQuery,
+      response: postPageSchema,
+    }),
+    async (req: any, res) => {
       const userId = req.user.claims.sub;
-      const { limit = 20, offset = 0 } = req.query;
-
-      const favorites = await storage.getUserFavorites(
-        userId,
-        parseInt(limit),
-        parseInt(offset)
-      );
+      const favorites = await storage.getUserFavorites(userId, {
+        ...req.query,
+        includeHidden: canModerate(req.user),
+      });
 
       res.json(favorites);
-    } catch (error) {
-      console.error("Error fetching user favorites:", error);
-      res.status(500).json({ message: "Failed to fetch favorites" });
     }
-  });
+  );
 
   // User posts route
-  app.get("/api/user/posts", isAuthenticated, async (req: any, res) => {
-    try {
+  app.get(
+    "/api/user/posts",
+    isAuthenticated,
+    validate({
+      summary: "Your posts, newest first",
+      scope: "posts:read",
+      query: pageQuery,
+      response: postPageSchema,
+    }),
+    async (req: any, res) => {
       const userId = req.user.claims.sub;
-      const { limit = 20, offset = 0 } = req.query;
+      // Filter to only user's posts (in SQL, so every page is full)
+      const userPosts = await storage.getPosts({
+        ...req.query,
+        userId,
+        authorId: userId,
+      });
+
+      res.json(userPosts);
+    }
+  );
 
-      const posts = await storage.getPosts(
-        parseInt(limit),
-        parseInt(offset),
-        undefined,
-        userId
+  // Public profile routes
+  app.get(
+    "/api/users/:id",
+    validate({
+      summary: "A user's public profile",
+      params: userIdParams,
+      response: userProfileSchema,
+    }),
+    async (req: any, res) => {
+      const { id } = req.params;
+      const profile = await storage.getUserProfile(
+        id,
+        viewerId(req),
+        canModerate(req.user)
       );
+      if (!profile) {
+        throw new NotFoundError("User not found");
+      }
+      res.json(profile);
+    }
+  );
+
+  app.get(
+    "/api/users/:id/posts",
+    validate({
+      summary: "A user's posts, newest first",
+      params: userIdParams,
+      query: pageQuery,
+      response: postPageSchema,
+    }),
+    async (req: any, res) => {
+      const { id } = req.params;
+      if (!(await storage.getUser(id))) {
+        throw new NotFoundError("User not found");
+      }
 
-      // Filter to only user's posts
-      const userPosts = posts.filter((post) => post.userId === userId);
+      const result = await storage.getPosts({
+        ...req.query,
+        userId: viewerId(req),
+        authorId: id,
+        includeHidden: canModerate(req.user),
+      });
 
-      res.json(userPosts);
-    } catch (error) {
-      console.error("Error fetching user posts:", error);
-      res.status(500).json({ message: "Failed to fetch user posts" });
+      res.json(result);
     }
-  });
+  );
+
+  // Follow routes
+  app.post(
+    "/api/users/:id/follow",
+    isAuthenticated,
+    validate({
+      summary: "Follow a user",
+      params: userIdParams,
+      response: successSchema,
+    }),
+    async (req: any, res) => {
+      const { id } = req.params;
+      const userId = req.user.claims.sub;
+      if (id === userId) {
+        throw new ValidationError("You cannot follow yourself");
+      }
+      if (!(await storage.getUser(id))) {
+        throw new NotFoundError("User not found");
+      }
+
+      await storage.followUser(userId, id);
+      res.json({ success: true });
+    }
+  );
+
+  app.delete(
+    "/api/users/:id/follow",
+    isAuthenticated,
+    validate({
+      summary: "Unfollow a user",
+      params: userIdParams,
+      response: successSchema,
+    }),
+    async (req: any, res) => {
+      const { id } = req.params;
+      await storage.unfollowUser(req.user.claims.sub, id);
+      res.json({ success: true });
+    }
+  );
+
+  app.get(
+    "/api/users/:id/followers",
+    validate({
+      summary: "Users following a user",
+      params: userIdParams,
+      query: pageQuery,
+      response: userPageSchema,
+    }),
+    async (req: any, res) => {
+      res.json(await storage.getFollowers(req.params.id, req.query));
+    }
+  );
+
+  app.get(
+    "/api/users/:id/following",
+    validate({
+      summary: "Users a user follows",
+      params: userIdParams,
+      query: pageQuery,
+      response: userPageSchema,
+    }),
+    async (req: any, res) => {
+      res.json(await storage.getFollowing(req.params.id, req.query));
+    }
+  );
+
+  // フォロー中の投稿者の新着。タグ・ゾーニングの絞り込みは /api/posts と同じ
+  app.get(
+    "/api/feed/following",
+    isAuthenticated,
+    validate({
+      summary: "New posts from users you follow",
+      query: postFilterQuery.extend(pageQuery.shape),
+      response: postPageSchema,
+    }),
+    async (req: any, res) => {
+      const userId = req.user.claims.sub;
+      const { limit, cursor } = req.query;
+      const result = await storage.getPosts({
+        limit,
+        cursor,
+        ...(await parsePostFilterQuery(req.query)),
+        userId,
+        followedBy: userId,
+        includeHidden: canModerate(req.user),
+      });
+
+      res.json(result);
+    }
+  );
+
+  app.patch(
+    "/api/user/profile",
+    isAuthenticated,
+    validate({
+      summary: "Update your public profile",
+      body: updateProfileSchema,
+      response: userSchema,
+    }),
+    async (req: any, res) => {
+      const userId = req.user.claims.sub;
+      const user = await storage.updateUserProfile(userId, req.body);
+      if (!user) {
+        throw new NotFoundError("User not found");
+      }
+      res.json(user);
+    }
+  );
 
   // Exclude tags routes (zoning feature)
-  app.get("/api/exclude-tags", isAuthenticated, async (req: any, res) => {
-    try {
+  // 有効なゾーニングプリセットがないときだけ効く（api/zoning.ts）
+  app.get(
+    "/api/exclude-tags",
+    isAuthenticated,
+    validate({
+      summary: "Your excluded tags",
+      response: z.array(tagSchema),
+    }),
+    async (req: any, res) => {
       const userId = req.user.claims.sub;
       const excludeTags = await storage.getUserExcludeTags(userId);
       res.json(excludeTags);
-    } catch (error) {
-      console.error("Error fetching exclude tags:", error);
-      res.status(500).json({ message: "Failed to fetch exclude tags" });
     }
-  });
+  );
 
-  app.post("/api/exclude-tags", isAuthenticated, async (req: any, res) => {
-    try {
+  app.post(
+    "/api/exclude-tags",
+    isAuthenticated,
+    validate({
+      summary: "Replace your excluded tags",
+      body: z.object({ tagIds: z.array(z.uuid()) }),
+      response: successSchema,
+    }),
+    async (req: any, res) => {
       const userId = req.user.claims.sub;
-      const { tagIds } = req.body as { tagIds?: string[] };
-      if (!Array.isArray(tagIds)) {
-        return res.status(400).json({ message: "tagIds is required" });
-      }
+      const { tagIds } = req.body;
       // Use new storage method to atomically replace user's exclude tags
       await storage.setUserExcludeTags(userId, tagIds);
       res.json({ success: true });
-    } catch (error) {
-      console.error("Error adding exclude tags:", error);
-      res.status(500).json({ message: "Failed to add exclude tags" });
     }
-  });
+  );
 
   app.delete(
     "/api/exclude-tags/:tagId",
     isAuthenticated,
+    validate({
+      summary: "Remove an excluded tag",
+      params: z.object({ tagId: z.uuid() }),
+      response: successSchema,
+    }),
     async (req: any, res) => {
-      try {
-        const userId = req.user.claims.sub;
-        const { tagId } = req.params;
+      const userId = req.user.claims.sub;
+      const { tagId } = req.params;
 
-        await storage.removeExcludeTag(userId, tagId);
-        res.json({ success: true });
-      } catch (error) {
-        console.error("Error removing exclude tag:", error);
-        res.status(500).json({ message: "Failed to remove exclude tag" });
-      }
+      await storage.removeExcludeTag(userId, tagId);
+      res.json({ success: true });
     }
   );
 
   app.post(
     "/api/upload",
     isAuthenticated,
+    writeLimits.upload,
+    // サイズ上限超過などの MulterError はエラーミドルウェアが 413 / 400 にする
     multerMemoryStorage.single("file"),
+    validate({
+      summary: "Upload an image and get its renditions",
+      scope: "upload",
+      files: ["file"],
+      response: uploadResultSchema,
+    }),
     async (req, res) => {
-      const cloudName = process.env.CLOUDINARY_CLOUD_NAME;
-      const uploadPreset = process.env.CLOUDINARY_UPLOAD_PRESET;
-      if (!cloudName || !uploadPreset)
-        throw new Error("Cloudinary configuration missing");
-
-      try {
-        // multerが処理したファイルはreq.fileにある
-        const fileBuffer = req.file?.buffer;
-        if (!fileBuffer) throw new Error("No file uploaded");
-
-        const formData = new FormData();
-        const blob = new Blob([new Uint8Array(fileBuffer)], {
-          type: req.file?.mimetype!,
-        });
-
-        formData.append("file", blob, req.file?.originalname);
-        formData.append("upload_preset", uploadPreset);
-
-        const res_ = await fetch(
-          `https://api.cloudinary.com/v1_1/${cloudName}/image/upload`,
-          { method: "POST", body: formData }
-        );
-        if (!res_.ok) throw new Error("Failed to upload image");
-        const data = await res_.json();
-
-        res.json({ ok: true, secure_url: data.secure_url });
-      } catch (error) {
-        res.status(500).json({ ok: false, message: "Failed to upload image" });
+      // multerが処理したファイルはreq.fileにある
+      if (!req.file) {
+        throw new ValidationError("No file uploaded");
       }
+
+      const processed = await processUpload(req.file.buffer);
+      const [original, medium, thumbnail] = await Promise.all(
+        (["original", "medium", "thumbnail"] as const).map((rendition) =>
+          imageStore.save({
+            buffer: processed[rendition].buffer,
+            filename: `${rendition}${processed[rendition].extension}`,
+            contentType: processed[rendition].contentType,
+          })
+        )
+      );
+
+      res.json({
+        ok: true,
+        secure_url: original!.url,
+        imageWidth: processed.original.width,
+        imageHeight: processed.original.height,
+        mediumUrl: medium!.url,
+        thumbnailUrl: thumbnail!.url,
+      });
     }
   );
 
+  // ルートから throw / next(err) されたエラーをまとめて JSON にする（最後に登録する）
+  app.use(errorHandler);
+
   const httpServer = createServer(app);
   return httpServer;
 }
 
+// postFilterQuery で検証済みのクエリを絞り込み条件にする。q が不正なら TagQueryError
+async function parsePostFilterQuery({
+  tagIds,
+  excludeTagIds,
+  q,
+}: z.infer<typeof postFilterQuery>): Promise<PostFilterOptions> {
+  const tagQuery = q?.trim()
+    ? resolveTagQuery(
+        parseTagQuery(q),
+        await storage.getAllTags(),
+        await storage.getTagAliases()
+      )
+    : undefined;
+
+  return { tagIds, tagQuery, excludeTagIds };
+}
+
+// 画像ごとのタグは 角度 カテゴリのタグに限る
+async function validateImageAngleTags(
+  images: InsertPostImage[]
+): Promise<boolean> {
+  const angleTagIds = images.flatMap((image) =>
+    image.angleTagId ? [image.angleTagId] : []
+  );
+  if (angleTagIds.length === 0) return true;
+
+  const angleTags = await storage.getTagsByCategory("角度");
+  return angleTagIds.every((tagId) => angleTags.some((t) => t.id === tagId));
+}
+
 async function initializeDefaultTags() {
   try {
     // Initialize default tags from the specification
     const defaultTags = [
       // 分類 tags
-      { name: "犬", category: "分類" as const },
-      { name: "猫", category: "分類" as const },
-      { name: "鳥類", category: "分類" as const },
-      { name: "爬虫類", category: "分類" as const },
-      { name: "両生類", category: "分類" as const },
-      { name: "魚類", category: "分類" as const },
-      { name: "小動物", category: "分類" as const },
-      { name: "昆虫", category: "分類" as const },
-      { name: "その他", category: "分類" as const },
+      { name: "犬", category: "分類" as const, reading: "イヌ" },
+      { name: "猫", category: "分類" as const, reading: "ネコ" },
+      { name: "鳥類", category: "分類" as const, reading: "チョウルイ" },
+      { name: "爬虫類", category: "分類" as const, reading: "ハチュウルイ" },
+      { name: "両生類", category: "分類" as const, reading: "リョウセイルイ" },
+      { name: "魚類", category: "分類" as const, reading: "ギョルイ" },
+      { name: "小動物", category: "分類" as const, reading: "ショウドウブツ" },
+      { name: "昆虫", category: "分類" as const, reading: "コンチュウ" },
+      { name: "その他", category: "分類" as const, reading: "ソノタ" },
 
       // 角度 tags
-      { name: "正面", category: "角度" as const },
-      { name: "横", category: "角度" as const },
-      { name: "斜め", category: "角度" as const },
-      { name: "上", category: "角度" as const },
-      { name: "下", category: "角度" as const },
-      { name: "後ろ", category: "角度" as const },
+      { name: "正面", category: "角度" as const, reading: "ショウメン" },
+      { name: "横", category: "角度" as const, reading: "ヨコ" },
+      { name: "斜め", category: "角度" as const, reading: "ナナメ" },
+      { name: "上", category: "角度" as const, reading: "ウエ" },
+      { name: "下", category: "角度" as const, reading: "シタ" },
+      { name: "後ろ", category: "角度" as const, reading: "ウシロ" },
 
       // パーツ tags
-      { name: "耳", category: "パーツ" as const },
-      { name: "ヒゲ", category: "パーツ" as const },
-      { name: "ツノ", category: "パーツ" as const },
-      { name: "牙", category: "パーツ" as const },
-      { name: "目", category: "パーツ" as const },
-      { name: "鼻", category: "パーツ" as const },
-      { name: "しっぽ", category: "パーツ" as const },
+      { name: "耳", category: "パーツ" as const, reading: "ミミ" },
+      { name: "ヒゲ", category: "パーツ" as const, reading: "ヒゲ" },
+      { name: "ツノ", category: "パーツ" as const, reading: "ツノ" },
+      { name: "牙", category: "パーツ" as const, reading: "キバ" },
+      { name: "目", category: "パーツ" as const, reading: "メ" },
+      { name: "鼻", category: "パーツ" as const, reading: "ハナ" },
+      { name: "しっぽ", category: "パーツ" as const, reading: "シッポ" },
     ];
 
     for (const tag of defaultTags) {
-      await storage.getOrCreateTag(tag.name, tag.category);
+      await storage.getOrCreateTag(tag.name, tag.category, tag.reading);
     }
   } catch (error) {
-    console.error("Error initializing default tags:", error);
+    logger.error("Error initializing default tags", { error });
   }
 }
@@ -8,6 +8,10 @@ import {
   text,
   pgEnum,
   uuid,
+  integer,
+  boolean,
+  uniqueIndex,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -23,6 +27,20 @@ export const sessions = pgTable(
   (table) => [index("IDX_session_expire").on(table.expire)]
 );
 
+// Rate limit counters (fixed window), used when RATE_LIMIT_STORE=postgres
+export const rateLimits = pgTable(
+  "rate_limits",
+  {
+    key: varchar("key").primaryKey(),
+    count: integer("count").notNull(),
+    resetAt: timestamp("reset_at").notNull(),
+  },
+  (table) => [index("IDX_rate_limits_reset_at").on(table.resetAt)]
+);
+
+// User role enum
+export const userRoleEnum = pgEnum("user_role", ["user", "moderator", "admin"]);
+
 // User storage table (required for Replit Auth)
 export const users = pgTable("users", {
   id: varchar("id")
@@ -32,10 +50,89 @@ export const users = pgTable("users", {
   firstName: varchar("first_name"),
   lastName: varchar("last_name"),
   profileImageUrl: varchar("profile_image_url"),
+  // 公開プロフィール。未設定なら氏名を表示名に使う
+  displayName: varchar("display_name", { length: 50 }),
+  bio: text("bio"),
+  role: userRoleEnum("role").notNull().default("user"),
+  // メール確認済みの日時。Google ログインは確認済みとして扱う
+  emailVerifiedAt: timestamp("email_verified_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Local email/password login. Kept out of users so the hash never ends up in
+// an API response; a Google user and a local user with the same email share
+// one users row
+export const userCredentials = pgTable("user_credentials", {
+  userId: varchar("user_id")
+    .primaryKey()
+    .references(() => users.id, { onDelete: "cascade" }),
+  passwordHash: text("password_hash").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const authTokenPurposeEnum = pgEnum("auth_token_purpose", [
+  "verify_email",
+  "reset_password",
+]);
+
+// One-time tokens sent by mail. Only the SHA-256 of the token is stored
+export const authTokens = pgTable(
+  "auth_tokens",
+  {
+    id: uuid("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: varchar("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    purpose: authTokenPurposeEnum("purpose").notNull(),
+    tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(),
+    expiresAt: timestamp("expires_at").notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    userId: index("auth_tokens_user_id").on(table.userId, table.purpose),
+  })
+);
+
+// What a personal access token may do. Routes declare the scope they need in
+// their validate() spec; routes without one reject tokens
+export const tokenScopes = [
+  "profile:read",
+  "posts:read",
+  "posts:write",
+  "upload",
+  "tags:write",
+  "favorites:read",
+  "favorites:write",
+  "collections:read",
+  "collections:write",
+] as const;
+
+// Personal access tokens for scripts (Authorization: Bearer pat_...).
+// Only the SHA-256 of the token is stored; tokenPrefix is shown to tell them apart
+export const personalAccessTokens = pgTable(
+  "personal_access_tokens",
+  {
+    id: uuid("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: varchar("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    name: varchar("name", { length: 100 }).notNull(),
+    scopes: text("scopes").array().$type<TokenScope[]>().notNull(),
+    tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(),
+    tokenPrefix: varchar("token_prefix", { length: 16 }).notNull(),
+    lastUsedAt: timestamp("last_used_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    userId: index("personal_access_tokens_user_id").on(table.userId),
+  })
+);
+
 // Tag category enum
 export const tagCategoryEnum = pgEnum("tag_category", [
   "分類",
@@ -53,10 +150,38 @@ export const tags = pgTable(
       .default(sql`gen_random_uuid()`),
     name: text("name").notNull(),
     category: tagCategoryEnum("category").notNull(),
+    // 検索用の読み（カタカナ）。ねこ / ネコ で 猫 を引けるようにする
+    reading: text("reading"),
+    // 親タグ（例: 柴犬 → 犬）。絞り込み・除外は子孫タグにも効く
+    parentId: uuid("parent_id").references((): AnyPgColumn => tags.id, {
+      onDelete: "set null",
+    }),
     createdAt: timestamp("created_at").defaultNow(),
   },
   (table) => ({
-    uniqueNameCategory: index("unique_name_category").on(
+    uniqueNameCategory: uniqueIndex("tags_name_category").on(
+      table.name,
+      table.category
+    ),
+  })
+);
+
+// Tag aliases table: alternative names that resolve to a canonical tag
+export const tagAliases = pgTable(
+  "tag_aliases",
+  {
+    id: uuid("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    name: text("name").notNull(),
+    category: tagCategoryEnum("category").notNull(),
+    tagId: uuid("tag_id")
+      .notNull()
+      .references(() => tags.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    uniqueNameCategory: uniqueIndex("tag_aliases_name_category").on(
       table.name,
       table.category
     ),
@@ -64,17 +189,69 @@ export const tags = pgTable(
 );
 
 // Posts table
-export const posts = pgTable("posts", {
-  id: uuid("id")
-    .primaryKey()
-    .default(sql`gen_random_uuid()`),
-  userId: varchar("user_id")
-    .notNull()
-    .references(() => users.id, { onDelete: "cascade" }),
-  imageUrl: text("image_url").notNull(),
-  caption: text("caption"),
-  createdAt: timestamp("created_at").defaultNow(),
-});
+export const posts = pgTable(
+  "posts",
+  {
+    id: uuid("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: varchar("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    imageUrl: text("image_url").notNull(),
+    // アップロード時に記録した画像サイズとリサイズ版（フィードのレイアウト用）
+    imageWidth: integer("image_width"),
+    imageHeight: integer("image_height"),
+    thumbnailUrl: text("thumbnail_url"),
+    mediumUrl: text("medium_url"),
+    caption: text("caption"),
+    // normalizeSearchText(caption)。書き込み時に storage が設定する
+    searchText: text("search_text"),
+    // モデレーターが非表示にした日時。投稿者とモデレーター以外には見えない
+    hiddenAt: timestamp("hidden_at"),
+    // favorites の件数。addFavorite / removeFavorite が増減する（一覧のたびに数えない）
+    favoriteCount: integer("favorite_count").notNull().default(0),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => ({
+    // pg_trgm が必要（npm run db:migrate で作成する）
+    searchTextTrgm: index("posts_search_text_trgm").using(
+      "gin",
+      table.searchText.op("gin_trgm_ops")
+    ),
+  })
+);
+
+// Post images table (gallery). position 0 is the cover mirrored on posts.image_url
+export const postImages = pgTable(
+  "post_images",
+  {
+    id: uuid("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    postId: uuid("post_id")
+      .notNull()
+      .references(() => posts.id, { onDelete: "cascade" }),
+    position: integer("position").notNull(),
+    imageUrl: text("image_url").notNull(),
+    imageWidth: integer("image_width"),
+    imageHeight: integer("image_height"),
+    thumbnailUrl: text("thumbnail_url"),
+    mediumUrl: text("medium_url"),
+    // 画像ごとの角度タグ（任意）
+    angleTagId: uuid("angle_tag_id").references(() => tags.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    postPosition: index("post_images_post_position").on(
+      table.postId,
+      table.position
+    ),
+  })
+);
 
 // Post-tags junction table
 export const postTags = pgTable(
@@ -105,7 +282,95 @@ export const favorites = pgTable(
     createdAt: timestamp("created_at").defaultNow(),
   },
   (table) => ({
-    pk: index("favorites_pk").on(table.userId, table.postId),
+    // 一意にしておかないと onConflictDoNothing が効かず、favoriteCount がずれる
+    pk: uniqueIndex("favorites_pk").on(table.userId, table.postId),
+  })
+);
+
+// Comments table. Replies point at a top-level comment (one level only)
+export const comments = pgTable(
+  "comments",
+  {
+    id: uuid("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    postId: uuid("post_id")
+      .notNull()
+      .references(() => posts.id, { onDelete: "cascade" }),
+    userId: varchar("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    parentId: uuid("parent_id").references((): AnyPgColumn => comments.id, {
+      onDelete: "cascade",
+    }),
+    body: text("body").notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    postId: index("comments_post_id").on(table.postId),
+  })
+);
+
+// Notification type enum
+export const notificationTypeEnum = pgEnum("notification_type", [
+  "favorite",
+  "comment",
+  "reply",
+  "follow",
+]);
+
+// Notifications table. dedupeKey があれば (userId, dedupeKey) で 1 件にまとめる
+// （お気に入りの付け外しを繰り返しても通知は増えない）
+export const notifications = pgTable(
+  "notifications",
+  {
+    id: uuid("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: varchar("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    actorId: varchar("actor_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    type: notificationTypeEnum("type").notNull(),
+    postId: uuid("post_id").references(() => posts.id, {
+      onDelete: "cascade",
+    }),
+    commentId: uuid("comment_id").references(() => comments.id, {
+      onDelete: "cascade",
+    }),
+    dedupeKey: varchar("dedupe_key"),
+    readAt: timestamp("read_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    dedupe: uniqueIndex("notifications_user_dedupe_key").on(
+      table.userId,
+      table.dedupeKey
+    ),
+    userCreatedAt: index("notifications_user_created_at").on(
+      table.userId,
+      table.createdAt
+    ),
+  })
+);
+
+// Follows table (follower → following)
+export const follows = pgTable(
+  "follows",
+  {
+    followerId: varchar("follower_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    followingId: varchar("following_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    pk: uniqueIndex("follows_pk").on(table.followerId, table.followingId),
+    followingId: index("follows_following_id").on(table.followingId),
   })
 );
 
@@ -126,11 +391,185 @@ export const userExcludeTags = pgTable(
   })
 );
 
+// Zoning mode: hide removes matching posts, blur returns them flagged
+export const zoningModeEnum = pgEnum("zoning_mode", ["hide", "blur"]);
+
+// Named zoning presets ("at work", "full", ...). At most one is active per user;
+// with none active, user_exclude_tags is used as a hide-mode zoning
+export const zoningPresets = pgTable(
+  "zoning_presets",
+  {
+    id: uuid("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: varchar("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    name: varchar("name", { length: 50 }).notNull(),
+    mode: zoningModeEnum("mode").notNull().default("hide"),
+    isActive: boolean("is_active").notNull().default(false),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    userName: uniqueIndex("zoning_presets_user_name").on(
+      table.userId,
+      table.name
+    ),
+    oneActive: uniqueIndex("zoning_presets_one_active")
+      .on(table.userId)
+      .where(sql`${table.isActive}`),
+  })
+);
+
+export const zoningPresetTags = pgTable(
+  "zoning_preset_tags",
+  {
+    presetId: uuid("preset_id")
+      .notNull()
+      .references(() => zoningPresets.id, { onDelete: "cascade" }),
+    tagId: uuid("tag_id")
+      .notNull()
+      .references(() => tags.id, { onDelete: "cascade" }),
+  },
+  (table) => ({
+    pk: uniqueIndex("zoning_preset_tags_pk").on(table.presetId, table.tagId),
+  })
+);
+
+// Collections group posts for drawing reference ("horse legs", "bird wings").
+// Private unless shareToken is set; anyone with the share link can then read it
+export const collections = pgTable(
+  "collections",
+  {
+    id: uuid("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: varchar("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    name: varchar("name", { length: 100 }).notNull(),
+    description: text("description"),
+    shareToken: varchar("share_token", { length: 64 }).unique(),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => ({
+    userId: index("collections_user_id").on(table.userId),
+  })
+);
+
+export const collectionPosts = pgTable(
+  "collection_posts",
+  {
+    collectionId: uuid("collection_id")
+      .notNull()
+      .references(() => collections.id, { onDelete: "cascade" }),
+    postId: uuid("post_id")
+      .notNull()
+      .references(() => posts.id, { onDelete: "cascade" }),
+    // コレクション内の並び順（小さいほど前）
+    position: integer("position").notNull(),
+    addedAt: timestamp("added_at").defaultNow(),
+  },
+  (table) => ({
+    pk: uniqueIndex("collection_posts_pk").on(table.collectionId, table.postId),
+    position: index("collection_posts_position").on(
+      table.collectionId,
+      table.position
+    ),
+  })
+);
+
+// Report reason / status enums
+export const reportReasonEnum = pgEnum("report_reason", [
+  "spam",
+  "inappropriate",
+  "not_animal",
+  "copyright",
+  "harassment",
+  "other",
+]);
+
+export const reportStatusEnum = pgEnum("report_status", [
+  "open",
+  "resolved",
+  "dismissed",
+]);
+
+// Post reports table (one report per user and post)
+export const postReports = pgTable(
+  "post_reports",
+  {
+    id: uuid("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    postId: uuid("post_id")
+      .notNull()
+      .references(() => posts.id, { onDelete: "cascade" }),
+    reporterId: varchar("reporter_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    reason: reportReasonEnum("reason").notNull(),
+    note: text("note"),
+    status: reportStatusEnum("status").notNull().default("open"),
+    resolvedBy: varchar("resolved_by").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    resolvedAt: timestamp("resolved_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    uniqueReporter: uniqueIndex("post_reports_post_reporter").on(
+      table.postId,
+      table.reporterId
+    ),
+    status: index("post_reports_status").on(table.status),
+  })
+);
+
+// Moderation action enum
+export const moderationActionEnum = pgEnum("moderation_action", [
+  "hide",
+  "restore",
+  "dismiss_reports",
+  "change_role",
+]);
+
+// Moderation audit log. Rows outlive the post / moderator they refer to
+export const moderationLogs = pgTable(
+  "moderation_logs",
+  {
+    id: uuid("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    moderatorId: varchar("moderator_id").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    action: moderationActionEnum("action").notNull(),
+    postId: uuid("post_id").references(() => posts.id, {
+      onDelete: "set null",
+    }),
+    targetUserId: varchar("target_user_id").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    reason: text("reason"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    postId: index("moderation_logs_post_id").on(table.postId),
+  })
+);
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   posts: many(posts),
   favorites: many(favorites),
   excludeTags: many(userExcludeTags),
+  zoningPresets: many(zoningPresets),
+  collections: many(collections),
+  following: many(follows, { relationName: "follower" }),
+  followers: many(follows, { relationName: "following" }),
+  notifications: many(notifications, { relationName: "notification_user" }),
 }));
 
 export const postsRelations = relations(posts, ({ one, many }) => ({
@@ -139,14 +578,59 @@ export const postsRelations = relations(posts, ({ one, many }) => ({
     references: [users.id],
   }),
   postTags: many(postTags),
+  images: many(postImages),
   favorites: many(favorites),
+  comments: many(comments),
+  collectionPosts: many(collectionPosts),
+}));
+
+export const commentsRelations = relations(comments, ({ one, many }) => ({
+  post: one(posts, {
+    fields: [comments.postId],
+    references: [posts.id],
+  }),
+  user: one(users, {
+    fields: [comments.userId],
+    references: [users.id],
+  }),
+  parent: one(comments, {
+    fields: [comments.parentId],
+    references: [comments.id],
+    relationName: "comment_parent",
+  }),
+  replies: many(comments, { relationName: "comment_parent" }),
+}));
+
+export const postImagesRelations = relations(postImages, ({ one }) => ({
+  post: one(posts, {
+    fields: [postImages.postId],
+    references: [posts.id],
+  }),
+  angleTag: one(tags, {
+    fields: [postImages.angleTagId],
+    references: [tags.id],
+  }),
 }));
 
-export const tagsRelations = relations(tags, ({ many }) => ({
+export const tagsRelations = relations(tags, ({ one, many }) => ({
+  parent: one(tags, {
+    fields: [tags.parentId],
+    references: [tags.id],
+    relationName: "tag_parent",
+  }),
+  children: many(tags, { relationName: "tag_parent" }),
+  aliases: many(tagAliases),
   postTags: many(postTags),
   userExcludeTags: many(userExcludeTags),
 }));
 
+export const tagAliasesRelations = relations(tagAliases, ({ one }) => ({
+  tag: one(tags, {
+    fields: [tagAliases.tagId],
+    references: [tags.id],
+  }),
+}));
+
 export const postTagsRelations = relations(postTags, ({ one }) => ({
   post: one(posts, {
     fields: [postTags.postId],
@@ -169,6 +653,87 @@ export const favoritesRelations = relations(favorites, ({ one }) => ({
   }),
 }));
 
+export const zoningPresetsRelations = relations(
+  zoningPresets,
+  ({ one, many }) => ({
+    user: one(users, {
+      fields: [zoningPresets.userId],
+      references: [users.id],
+    }),
+    presetTags: many(zoningPresetTags),
+  })
+);
+
+export const zoningPresetTagsRelations = relations(
+  zoningPresetTags,
+  ({ one }) => ({
+    preset: one(zoningPresets, {
+      fields: [zoningPresetTags.presetId],
+      references: [zoningPresets.id],
+    }),
+    tag: one(tags, {
+      fields: [zoningPresetTags.tagId],
+      references: [tags.id],
+    }),
+  })
+);
+
+export const collectionsRelations = relations(collections, ({ one, many }) => ({
+  user: one(users, {
+    fields: [collections.userId],
+    references: [users.id],
+  }),
+  collectionPosts: many(collectionPosts),
+}));
+
+export const collectionPostsRelations = relations(
+  collectionPosts,
+  ({ one }) => ({
+    collection: one(collections, {
+      fields: [collectionPosts.collectionId],
+      references: [collections.id],
+    }),
+    post: one(posts, {
+      fields: [collectionPosts.postId],
+      references: [posts.id],
+    }),
+  })
+);
+
+export const notificationsRelations = relations(notifications, ({ one }) => ({
+  user: one(users, {
+    fields: [notifications.userId],
+    references: [users.id],
+    relationName: "notification_user",
+  }),
+  actor: one(users, {
+    fields: [notifications.actorId],
+    references: [users.id],
+    relationName: "notification_actor",
+  }),
+  post: one(posts, {
+    fields: [notifications.postId],
+    references: [posts.id],
+  }),
+  comment: one(comments, {
+    fields: [notifications.commentId],
+    references: [comments.id],
+  }),
+}));
+
+export const followsRelations = relations(follows, ({ one }) => ({
+  follower: one(users, {
+    fields: [follows.followerId],
+    references: [users.id],
+    relationName: "follower",
+  }),
+  following: one(users, {
+    fields: [follows.followingId],
+    references: [users.id],
+    relationName: "following",
+  }),
+}));
+
 export const userExcludeTagsRelations = relations(
   userExcludeTags,
   ({ one }) => ({
@@ -191,31 +756,297 @@ export const insertUserSchema = createInsertSchema(users).pick({
   profileImageUrl: true,
 });
 
+export const updateProfileSchema = createInsertSchema(users, {
+  displayName: (schema) => schema.trim().min(1).max(50),
+  bio: (schema) => schema.trim().max(500),
+  profileImageUrl: () => z.url(),
+})
+  .pick({ displayName: true, bio: true, profileImageUrl: true })
+  .partial();
+
 export const insertPostSchema = createInsertSchema(posts).omit({
   id: true,
+  searchText: true,
+  hiddenAt: true,
+  favoriteCount: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const updatePostSchema = insertPostSchema
+  .pick({ caption: true })
+  .partial();
+
+export const insertPostImageSchema = createInsertSchema(postImages).omit({
+  id: true,
+  postId: true,
+  position: true,
   createdAt: true,
 });
 
+export const maxCommentLength = 1000;
+
+export const insertCommentSchema = createInsertSchema(comments, {
+  body: (schema) => schema.trim().min(1).max(maxCommentLength),
+}).omit({
+  id: true,
+  postId: true,
+  userId: true,
+  createdAt: true,
+});
+
+export const insertZoningPresetSchema = createInsertSchema(zoningPresets, {
+  name: (schema) => schema.trim().min(1).max(50),
+}).omit({
+  id: true,
+  userId: true,
+  isActive: true,
+  createdAt: true,
+});
+
+export const updateZoningPresetSchema = insertZoningPresetSchema.partial();
+
+export const insertCollectionSchema = createInsertSchema(collections, {
+  name: (schema) => schema.trim().min(1).max(100),
+  description: (schema) => schema.trim().max(1000),
+}).pick({ name: true, description: true });
+
+export const updateCollectionSchema = insertCollectionSchema.partial();
+
+export const insertAccessTokenSchema = createInsertSchema(
+  personalAccessTokens,
+  {
+    name: (schema) => schema.trim().min(1).max(100),
+    scopes: () => z.array(z.enum(tokenScopes)).min(1),
+  }
+).pick({ name: true, scopes: true });
+
+export const insertReportSchema = createInsertSchema(postReports).pick({
+  reason: true,
+  note: true,
+});
+
 export const insertTagSchema = createInsertSchema(tags).omit({
   id: true,
+  parentId: true,
+  createdAt: true,
+});
+
+export const insertTagAliasSchema = createInsertSchema(tagAliases).omit({
+  id: true,
+  tagId: true,
   createdAt: true,
 });
 
 // Types
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
+export type UserRole = User["role"];
+export type UserCredential = typeof userCredentials.$inferSelect;
+export type AuthToken = typeof authTokens.$inferSelect;
+export type AuthTokenPurpose = AuthToken["purpose"];
+export type TokenScope = (typeof tokenScopes)[number];
+export type PersonalAccessToken = typeof personalAccessTokens.$inferSelect;
+export type InsertAccessToken = z.infer<typeof insertAccessTokenSchema>;
+// API で返す形（ハッシュは返さない）
+export type AccessTokenInfo = Omit<PersonalAccessToken, "tokenHash">;
+export type UpdateProfile = z.infer<typeof updateProfileSchema>;
 export type Post = typeof posts.$inferSelect;
 export type Tag = typeof tags.$inferSelect;
+export type TagAlias = typeof tagAliases.$inferSelect;
+export type InsertTagAlias = z.infer<typeof insertTagAliasSchema>;
 export type PostTag = typeof postTags.$inferSelect;
 export type Favorite = typeof favorites.$inferSelect;
 export type UserExcludeTag = typeof userExcludeTags.$inferSelect;
+export type Follow = typeof follows.$inferSelect;
+export type ZoningPreset = typeof zoningPresets.$inferSelect;
+export type InsertZoningPreset = z.infer<typeof insertZoningPresetSchema>;
+export type UpdateZoningPreset = z.infer<typeof updateZoningPresetSchema>;
+export type ZoningMode = ZoningPreset["mode"];
+export type ZoningPresetTag = typeof zoningPresetTags.$inferSelect;
+export type Collection = typeof collections.$inferSelect;
+export type InsertCollection = z.infer<typeof insertCollectionSchema>;
+export type UpdateCollection = z.infer<typeof updateCollectionSchema>;
+export type CollectionPost = typeof collectionPosts.$inferSelect;
+export type Comment = typeof comments.$inferSelect;
+export type InsertComment = z.infer<typeof insertCommentSchema>;
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = typeof notifications.$inferInsert;
 export type InsertPost = z.infer<typeof insertPostSchema>;
+export type UpdatePost = z.infer<typeof updatePostSchema> & Partial<PostCover>;
+export type PostImage = typeof postImages.$inferSelect;
+export type InsertPostImage = z.infer<typeof insertPostImageSchema>;
+// posts 側に複製しているカバー画像（先頭の画像）の列
+export type PostCover = Pick<
+  InsertPost,
+  "imageUrl" | "imageWidth" | "imageHeight" | "thumbnailUrl" | "mediumUrl"
+>;
 export type InsertTag = z.infer<typeof insertTagSchema>;
 export type TagCategory = "分類" | "角度" | "パーツ" | "自由";
+export type PostReport = typeof postReports.$inferSelect;
+export type InsertReport = z.infer<typeof insertReportSchema>;
+export type ReportStatus = PostReport["status"];
+export type ModerationLog = typeof moderationLogs.$inferSelect;
+export type ModerationAction = ModerationLog["action"];
 
 // Extended types for API responses
-export type PostWithTags = Post & {
+
+// 他人に見せてよいユーザー情報（メールアドレス・ロールは含めない）
+export type PublicUser = {
+  id: string;
+  displayName: string;
+  profileImageUrl: string | null;
+};
+
+export type UserProfile = PublicUser & {
+  bio: string | null;
+  postCount: number;
+  // 投稿が受けたお気に入りの合計
+  favoriteCount: number;
+  followerCount: number;
+  followingCount: number;
+  // 閲覧ユーザーがフォローしているか（未ログインなら false）
+  isFollowing: boolean;
+  createdAt: Date | null;
+};
+
+export function toPublicUser(user: User): PublicUser {
+  const fullName = [user.firstName, user.lastName].filter(Boolean).join(" ");
+  return {
+    id: user.id,
+    displayName: user.displayName || fullName || "Anonymous",
+    profileImageUrl: user.profileImageUrl,
+  };
+}
+
+// クライアントに返す投稿。検索用の正規化済みテキストと非表示日時は内部用なので含めない
+export type PublicPost = Omit<Post, "searchText" | "hiddenAt"> & {
+  // 非表示にされているか（非表示の投稿は投稿者とモデレーターにしか返らない）
+  isHidden: boolean;
+};
+
+export function toPublicPost({
+  searchText: _searchText,
+  hiddenAt,
+  ...post
+}: Post): PublicPost {
+  return { ...post, isHidden: hiddenAt !== null };
+}
+
+export type PostWithTags = PublicPost & {
   tags: Tag[];
-  user: User;
+  // position 順。ギャラリー導入前の投稿はカバー画像 1 枚だけを返す
+  images: PostImage[];
+  user: PublicUser;
   isFavorited?: boolean;
+  // 作成後に編集されたか（updatedAt > createdAt）
+  isEdited: boolean;
+  commentCount: number;
+  // blur モードのゾーニングに一致したとき、一致したプリセットのタグ（クライアントで隠して表示する）
+  zonedBy?: Tag[];
+};
+
+export type ZoningPresetWithTags = ZoningPreset & { tags: Tag[] };
+
+// 所有者と投稿数付きのコレクション
+export type CollectionWithCount = Collection & {
+  user: PublicUser;
+  postCount: number;
+};
+
+export type CommentWithUser = Comment & { user: PublicUser };
+
+// トップレベルのコメントと、それへの返信（古い順）
+export type CommentThread = CommentWithUser & { replies: CommentWithUser[] };
+
+// GET /api/user/export で渡す本人のデータ一式
+export type UserExport = {
+  profile: User;
+  posts: PostWithTags[];
+  favorites: Pick<Favorite, "postId" | "createdAt">[];
+  excludeTags: Tag[];
+  comments: Comment[];
+  following: Pick<Follow, "followingId" | "createdAt">[];
+  zoningPresets: ZoningPresetWithTags[];
+  collections: (CollectionWithCount & { postIds: string[] })[];
+};
+
+// 退会で消えた投稿の画像 URL。画像ホスト側の削除は API では行わない
+export type DeletedUser = { imageUrls: string[] };
+
+export function isEdited(post: Post): boolean {
+  if (!post.createdAt || !post.updatedAt) return false;
+  return post.updatedAt.getTime() > post.createdAt.getTime();
+}
+
+export function coverOf(image: InsertPostImage): PostCover {
+  return {
+    imageUrl: image.imageUrl,
+    imageWidth: image.imageWidth ?? null,
+    imageHeight: image.imageHeight ?? null,
+    thumbnailUrl: image.thumbnailUrl ?? null,
+    mediumUrl: image.mediumUrl ?? null,
+  };
+}
+
+// 画像とそのリサイズ版の URL（重複なし）
+export function imageUrlsOf(images: PostCover[]): string[] {
+  const urls = images.flatMap((image) => [
+    image.imageUrl,
+    image.mediumUrl,
+    image.thumbnailUrl,
+  ]);
+  return Array.from(new Set(urls.filter((url): url is string => Boolean(url))));
+}
+
+// post_images を持たない（ギャラリー導入前の）投稿のカバー画像
+export function legacyCoverImage(post: Post): PostImage {
+  return {
+    id: post.id,
+    postId: post.id,
+    position: 0,
+    imageUrl: post.imageUrl,
+    imageWidth: post.imageWidth,
+    imageHeight: post.imageHeight,
+    thumbnailUrl: post.thumbnailUrl,
+    mediumUrl: post.mediumUrl,
+    angleTagId: null,
+    createdAt: post.createdAt,
+  };
+}
+
+// タグと、そのタグが付いた（非表示でない）投稿の数。共起の一覧では一緒に付いた投稿の数
+export type TagWithCount = Tag & { postCount: number };
+
+export type PostPage = {
+  posts: PostWithTags[];
+  nextCursor: string | null;
+};
+
+export type NotificationWithActor = Notification & { actor: PublicUser };
+
+export type NotificationPage = {
+  notifications: NotificationWithActor[];
+  nextCursor: string | null;
+};
+
+export type UserPage = {
+  users: PublicUser[];
+  nextCursor: string | null;
+};
+
+// モデレーションキュー: 未対応の通報が付いた投稿
+export type ModerationQueueItem = {
+  post: PostWithTags;
+  reports: PostReport[];
+};
+
+export type ModerationQueuePage = {
+  items: ModerationQueueItem[];
+  nextCursor: string | null;
+};
+
+export type ModerationLogPage = {
+  logs: ModerationLog[];
+  nextCursor: string | null;
 };
@@ -0,0 +1,51 @@
+import type { Tag, TagAlias } from "./schema";
+
+// ひらがな (ぁ-ゖ) → カタカナ (ァ-ヶ)
+const hiraganaToKatakana = (value: string) =>
+  value.replace(/[ぁ-ゖ]/g, (ch) =>
+    String.fromCharCode(ch.charCodeAt(0) + 0x60)
+  );
+
+// 検索用の正規化。NFKC で全角英数・半角カナをそろえ、ひらがなはカタカナに寄せる
+// （ねこ / ネコ / ﾈｺ がすべて「ネコ」になる）
+export function normalizeSearchText(value: string): string {
+  return hiraganaToKatakana(value.normalize("NFKC"))
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// クエリを空白区切りの語に分ける。各語は AND で扱う
+export function tokenizeSearchQuery(query: string): string[] {
+  return normalizeSearchText(query).split(" ").filter(Boolean);
+}
+
+// LIKE / ILIKE のパターンに入れる語。% と _ を文字として扱う（エスケープ文字は既定の \）
+export function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, "\\$&");
+}
+
+// 1 文字の語は完全一致のみ（メ＝目 などの誤爆を避ける）
+function matchesToken(value: string | null, token: string): boolean {
+  if (!value) return false;
+  const candidate = normalizeSearchText(value);
+  return token.length > 1 ? candidate.startsWith(token) : candidate === token;
+}
+
+// 語がタグ名・読み・別名に一致するタグの ID
+export function matchingTagIds(
+  token: string,
+  allTags: Tag[],
+  aliases: TagAlias[]
+): string[] {
+  const tagIds = new Set<string>();
+  for (const tag of allTags) {
+    if (matchesToken(tag.name, token) || matchesToken(tag.reading, token)) {
+      tagIds.add(tag.id);
+    }
+  }
+  for (const alias of aliases) {
+    if (matchesToken(alias.name, token)) tagIds.add(alias.tagId);
+  }
+  return Array.from(tagIds);
+}
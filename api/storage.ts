@@ -1,71 +1,441 @@
 import {
+  sessions,
   users,
   posts,
   tags,
   postTags,
+  postImages,
+  tagAliases,
   favorites,
+  follows,
+  comments,
+  notifications,
   userExcludeTags,
+  zoningPresets,
+  zoningPresetTags,
+  collections,
+  collectionPosts,
+  userCredentials,
+  authTokens,
+  personalAccessTokens,
+  postReports,
+  moderationLogs,
+  isEdited,
+  legacyCoverImage,
+  toPublicUser,
+  toPublicPost,
+  imageUrlsOf,
   type User,
   type UpsertUser,
   type Post,
   type Tag,
   type PostWithTags,
+  type PostPage,
   type InsertPost,
+  type UpdatePost,
+  type InsertPostImage,
   type InsertTag,
+  type TagAlias,
+  type InsertTagAlias,
   type TagCategory,
+  type TagWithCount,
+  type ZoningPreset,
+  type InsertZoningPreset,
+  type UpdateZoningPreset,
+  type ZoningPresetWithTags,
+  type CollectionWithCount,
+  type InsertCollection,
+  type UpdateCollection,
+  type UserRole,
+  type AuthTokenPurpose,
+  type AccessTokenInfo,
+  type InsertAccessToken,
+  type TokenScope,
+  type UserProfile,
+  type UserPage,
+  type Comment,
+  type InsertComment,
+  type CommentThread,
+  type InsertNotification,
+  type NotificationPage,
+  type UpdateProfile,
+  type UserExport,
+  type DeletedUser,
+  type PostReport,
+  type InsertReport,
+  type ModerationQueuePage,
+  type ModerationLogPage,
 } from "./schema";
-import { db } from "./db";
-import { eq, and, inArray, sql, desc, count, notInArray } from "drizzle-orm";
+import { getDb, type Database } from "./db";
+import { publishNotificationEvent } from "./notificationHub";
+import { trendingGravity } from "./ranking";
+import { MemoryStorage } from "./memoryStorage";
+import {
+  encodeCursor,
+  encodeOffsetCursor,
+  type PostCursor,
+} from "./pagination";
+import {
+  escapeLikePattern,
+  matchingTagIds,
+  normalizeSearchText,
+  tokenizeSearchQuery,
+} from "./search";
+import {
+  eq,
+  and,
+  or,
+  lt,
+  gt,
+  inArray,
+  sql,
+  desc,
+  asc,
+  notInArray,
+  not,
+  isNull,
+  count,
+  max,
+  getTableColumns,
+  type SQL,
+  type SQLWrapper,
+} from "drizzle-orm";
+import type { PgColumn } from "drizzle-orm/pg-core";
+import type { ResolvedTagQuery } from "./tagQuery";
+
+export type PageOptions = {
+  limit?: number | undefined;
+  cursor?: PostCursor | undefined;
+};
+
+export type PostFilterOptions = {
+  tagIds?: string[] | undefined;
+  // ?q= のタグクエリ（解決済み）
+  tagQuery?: ResolvedTagQuery | undefined;
+  excludeTagIds?: string[] | undefined;
+  // 閲覧ユーザー（お気に入り状態・除外タグ設定に使う）
+  userId?: string | undefined;
+  // 投稿者で絞り込む
+  authorId?: string | undefined;
+  // このユーザーがフォローしている投稿者に絞り込む（フォロー中フィード）
+  followedBy?: string | undefined;
+  // 非表示の投稿も含める（モデレーター用）。false なら閲覧ユーザー自身の投稿だけ含める
+  includeHidden?: boolean | undefined;
+};
+
+export const postSorts = ["new", "popular", "trending"] as const;
+
+// new: 新着順（keyset）/ popular: お気に入り数順 / trending: 経過時間で減衰させたお気に入り数順
+// popular・trending はオフセットでページングする
+export type PostSort = (typeof postSorts)[number];
+
+export type PostListOptions = PageOptions &
+  PostFilterOptions & {
+    sort?: PostSort | undefined;
+    offset?: number | undefined;
+  };
+
+export type OffsetPageOptions = {
+  limit?: number | undefined;
+  offset?: number | undefined;
+};
+
+export type SearchOptions = PostFilterOptions & OffsetPageOptions;
+
+export type FavoriteListOptions = PageOptions & {
+  includeHidden?: boolean | undefined;
+};
+
+export type NotificationListOptions = PageOptions & {
+  unreadOnly?: boolean | undefined;
+};
+
+export type TagCooccurrenceOptions = {
+  category?: TagCategory | undefined;
+  limit?: number | undefined;
+};
+
+export type ModerationLogOptions = OffsetPageOptions & {
+  postId?: string | undefined;
+};
+
+// userId は閲覧者（ゾーニングと非表示投稿の判定に使う）
+export type CollectionPostListOptions = OffsetPageOptions & {
+  userId?: string | undefined;
+  includeHidden?: boolean | undefined;
+};
 
 export interface IStorage {
   // User operations (required for Replit Auth)
   getUser(id: string): Promise<User | undefined>;
   upsertUser(user: UpsertUser): Promise<User>;
+  // 大文字小文字を区別しない
+  getUserByEmail(email: string): Promise<User | undefined>;
+  markEmailVerified(userId: string): Promise<User | undefined>;
+  // ローカルログインのパスワードハッシュ。null を渡すとパスワードを外す
+  getPasswordHash(userId: string): Promise<string | undefined>;
+  setPasswordHash(userId: string, passwordHash: string | null): Promise<void>;
+  // 同じユーザー・用途の未使用トークンは置き換える
+  createAuthToken(
+    userId: string,
+    purpose: AuthTokenPurpose,
+    tokenHash: string,
+    expiresAt: Date
+  ): Promise<void>;
+  // 期限内のトークンなら削除して userId を返す（一度しか使えない）
+  consumeAuthToken(
+    purpose: AuthTokenPurpose,
+    tokenHash: string
+  ): Promise<string | undefined>;
+
+  // Personal access tokens
+  getAccessTokens(userId: string): Promise<AccessTokenInfo[]>;
+  createAccessToken(
+    userId: string,
+    token: InsertAccessToken,
+    tokenHash: string,
+    tokenPrefix: string
+  ): Promise<AccessTokenInfo>;
+  deleteAccessToken(id: string, userId: string): Promise<boolean>;
+  // ハッシュが一致するトークンの持ち主とスコープ。使うたびに lastUsedAt を更新する
+  authenticateAccessToken(
+    tokenHash: string
+  ): Promise<{ user: User; scopes: TokenScope[] } | undefined>;
+
+  setUserRole(
+    userId: string,
+    role: UserRole,
+    actorId: string | null
+  ): Promise<User | undefined>;
+  getUserProfile(
+    id: string,
+    viewerId?: string,
+    includeHidden?: boolean
+  ): Promise<UserProfile | undefined>;
+  updateUserProfile(
+    id: string,
+    changes: UpdateProfile
+  ): Promise<User | undefined>;
+  // 本人のデータ一式（非表示の投稿も含む）
+  getUserExport(userId: string): Promise<UserExport | undefined>;
+  // 退会。関連する行は onDelete: cascade で消え、セッションも消す
+  deleteUser(id: string): Promise<DeletedUser | undefined>;
 
   // Tag operations
   getAllTags(): Promise<Tag[]>;
   getTagsByCategory(category: TagCategory): Promise<Tag[]>;
   createTag(tag: InsertTag): Promise<Tag>;
-  getOrCreateTag(name: string, category: TagCategory): Promise<Tag>;
+  getOrCreateTag(
+    name: string,
+    category: TagCategory,
+    reading?: string
+  ): Promise<Tag>;
+  getTag(id: string): Promise<Tag | undefined>;
+  // どの投稿・画像・除外設定・子タグからも使われていない自由タグを消す。消した件数を返す
+  deleteUnusedFreeTags(createdBefore: Date): Promise<number>;
+  getTagDescendantIds(tagId: string): Promise<string[]>;
+  setTagParent(
+    tagId: string,
+    parentId: string | null
+  ): Promise<Tag | undefined>;
+  getTagAliases(tagId?: string): Promise<TagAlias[]>;
+  createTagAlias(alias: InsertTagAlias, tagId: string): Promise<TagAlias>;
+  deleteTagAlias(id: string): Promise<boolean>;
+  mergeTags(sourceId: string, targetId: string): Promise<Tag | undefined>;
+  getTagStats(category?: TagCategory): Promise<TagWithCount[]>;
+  // tagIds のいずれかと同じ投稿に付いているタグを、一緒に付いた投稿数の多い順に返す
+  getCooccurringTags(
+    tagIds: string[],
+    options?: TagCooccurrenceOptions
+  ): Promise<TagWithCount[]>;
 
   // Post operations
-  getPosts(
-    limit?: number,
-    offset?: number,
+  getPosts(options?: PostListOptions): Promise<PostPage>;
+  searchPosts(query: string, options: SearchOptions): Promise<PostPage>;
+  getPost(
+    id: string,
+    userId?: string,
+    includeHidden?: boolean
+  ): Promise<PostWithTags | undefined>;
+  createPost(
+    post: InsertPost,
+    tagIds: string[],
+    images?: InsertPostImage[]
+  ): Promise<Post>;
+  updatePost(
+    id: string,
+    userId: string,
+    changes: UpdatePost,
     tagIds?: string[],
-    userId?: string
-  ): Promise<PostWithTags[]>;
-  getPost(id: string, userId?: string): Promise<PostWithTags | undefined>;
-  createPost(post: InsertPost, tagIds: string[]): Promise<Post>;
+    images?: InsertPostImage[]
+  ): Promise<Post | undefined>;
   deletePost(id: string, userId: string): Promise<boolean>;
 
+  // Comment operations
+  getComments(postId: string): Promise<CommentThread[]>;
+  getComment(id: string): Promise<Comment | undefined>;
+  createComment(
+    postId: string,
+    userId: string,
+    comment: InsertComment
+  ): Promise<Comment>;
+  deleteComment(id: string): Promise<boolean>;
+
+  // Follow operations
+  followUser(followerId: string, followingId: string): Promise<void>;
+  unfollowUser(followerId: string, followingId: string): Promise<void>;
+  getFollowers(userId: string, options?: PageOptions): Promise<UserPage>;
+  getFollowing(userId: string, options?: PageOptions): Promise<UserPage>;
+
   // Favorite operations
   addFavorite(userId: string, postId: string): Promise<void>;
   removeFavorite(userId: string, postId: string): Promise<void>;
   getUserFavorites(
     userId: string,
-    limit?: number,
-    offset?: number
-  ): Promise<PostWithTags[]>;
+    options?: FavoriteListOptions
+  ): Promise<PostPage>;
+  // favoriteCount を favorites から数え直す（postIds 省略時は全投稿）
+  recountFavorites(postIds?: string[]): Promise<void>;
+
+  // Notification operations
+  getNotifications(
+    userId: string,
+    options?: NotificationListOptions
+  ): Promise<NotificationPage>;
+  getUnreadNotificationCount(userId: string): Promise<number>;
+  // ids を省略するとすべて既読にする。既読にした件数を返す
+  markNotificationsRead(userId: string, ids?: string[]): Promise<number>;
 
   // Exclude tag operations (zoning)
   addExcludeTag(userId: string, tagId: string): Promise<void>;
   removeExcludeTag(userId: string, tagId: string): Promise<void>;
   getUserExcludeTags(userId: string): Promise<Tag[]>;
+  setUserExcludeTags(userId: string, tagIds: string[]): Promise<void>;
+
+  // Moderation operations
+  createReport(
+    postId: string,
+    reporterId: string,
+    report: InsertReport
+  ): Promise<PostReport>;
+  getModerationQueue(options?: OffsetPageOptions): Promise<ModerationQueuePage>;
+  setPostHidden(
+    postId: string,
+    moderatorId: string,
+    hidden: boolean,
+    reason?: string
+  ): Promise<Post | undefined>;
+  dismissReports(
+    postId: string,
+    moderatorId: string,
+    reason?: string
+  ): Promise<number>;
+  getModerationLogs(options?: ModerationLogOptions): Promise<ModerationLogPage>;
+
+  // Collection operations
+  getCollections(userId: string): Promise<CollectionWithCount[]>;
+  getCollection(id: string): Promise<CollectionWithCount | undefined>;
+  getCollectionByShareToken(
+    shareToken: string
+  ): Promise<CollectionWithCount | undefined>;
+  createCollection(
+    userId: string,
+    collection: InsertCollection
+  ): Promise<CollectionWithCount>;
+  updateCollection(
+    id: string,
+    userId: string,
+    changes: UpdateCollection
+  ): Promise<CollectionWithCount | undefined>;
+  // null で共有リンクを無効化（非公開に戻す）
+  setCollectionShareToken(
+    id: string,
+    userId: string,
+    shareToken: string | null
+  ): Promise<CollectionWithCount | undefined>;
+  deleteCollection(id: string, userId: string): Promise<boolean>;
+  getCollectionPosts(
+    collectionId: string,
+    options?: CollectionPostListOptions
+  ): Promise<PostPage>;
+  // 末尾に追加する。追加済みなら false
+  addCollectionPost(collectionId: string, postId: string): Promise<boolean>;
+  removeCollectionPost(collectionId: string, postId: string): Promise<boolean>;
+  // postIds はコレクション内の全投稿を新しい順序で並べたもの
+  reorderCollectionPosts(
+    collectionId: string,
+    postIds: string[]
+  ): Promise<boolean>;
+
+  // Zoning preset operations
+  getZoningPresets(userId: string): Promise<ZoningPresetWithTags[]>;
+  createZoningPreset(
+    userId: string,
+    preset: InsertZoningPreset,
+    tagIds: string[]
+  ): Promise<ZoningPresetWithTags>;
+  updateZoningPreset(
+    id: string,
+    userId: string,
+    changes: UpdateZoningPreset,
+    tagIds?: string[]
+  ): Promise<ZoningPresetWithTags | undefined>;
+  deleteZoningPreset(id: string, userId: string): Promise<boolean>;
+  // presetId が null ならどれも有効にしない（user_exclude_tags に戻る）
+  setActiveZoningPreset(
+    userId: string,
+    presetId: string | null
+  ): Promise<boolean>;
 
   // Validation
   validatePostTags(tagIds: string[]): Promise<boolean>;
 }
 
-// @ts-ignore
+// tokenHash を除いた personal_access_tokens の列
+const { tokenHash: _tokenHash, ...accessTokenColumns } =
+  getTableColumns(personalAccessTokens);
+
+// (createdAt, id) が cursor より前（降順で後ろ）の行
+function keysetBefore(
+  createdAtColumn: PgColumn,
+  idColumn: PgColumn,
+  cursor: PostCursor
+): SQL {
+  return or(
+    sql`${createdAtColumn} < ${cursor.createdAt}::timestamp`,
+    and(
+      sql`${createdAtColumn} = ${cursor.createdAt}::timestamp`,
+      lt(idColumn, cursor.id)
+    )
+  )!;
+}
+
+// タグIDの一覧（またはサブクエリ）を子孫タグまで広げた ID 集合
+function withDescendantTags(tagIds: string[] | SQLWrapper): SQL {
+  return sql`(WITH RECURSIVE descendants(id) AS (
+    SELECT id FROM tags WHERE id IN ${tagIds}
+    UNION
+    SELECT tags.id FROM tags JOIN descendants ON tags.parent_id = descendants.id
+  ) SELECT id FROM descendants)`;
+}
+
+// limit + 1 件取得して、続きがあれば最後の要素からカーソルを作る
+function nextCursorOf(rows: PostCursor[], limit: number): string | null {
+  if (rows.length <= limit) return null;
+  const last = rows[limit - 1];
+  return last ? encodeCursor(last) : null;
+}
+
 export class DatabaseStorage implements IStorage {
+  constructor(private readonly db: Database) {}
+
   async getUser(id: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
     return user;
   }
 
   async upsertUser(userData: UpsertUser): Promise<User> {
-    const [user] = await db
+    const [user] = await this.db
       .insert(users)
       .values(userData)
       .onConflictDoUpdate({
@@ -81,204 +451,994 @@ export class DatabaseStorage implements IStorage {
     return user!;
   }
 
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await this.db
+      .select()
+      .from(users)
+      .where(sql`lower(${users.email}) = ${email.toLowerCase()}`);
+    return user;
+  }
+
+  async markEmailVerified(userId: string): Promise<User | undefined> {
+    const [user] = await this.db
+      .update(users)
+      .set({
+        emailVerifiedAt: sql`coalesce(${users.emailVerifiedAt}, now())`,
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+
+  async getPasswordHash(userId: string): Promise<string | undefined> {
+    const [credential] = await this.db
+      .select({ passwordHash: userCredentials.passwordHash })
+      .from(userCredentials)
+      .where(eq(userCredentials.userId, userId));
+    return credential?.passwordHash;
+  }
+
+  async setPasswordHash(
+    userId: string,
+    passwordHash: string | null
+  ): Promise<void> {
+    if (passwordHash === null) {
+      await this.db
+        .delete(userCredentials)
+        .where(eq(userCredentials.userId, userId));
+      return;
+    }
+    await this.db
+      .insert(userCredentials)
+      .values({ userId, passwordHash })
+      .onConflictDoUpdate({
+        target: userCredentials.userId,
+        set: { passwordHash, updatedAt: new Date() },
+      });
+  }
+
+  async createAuthToken(
+    userId: string,
+    purpose: AuthTokenPurpose,
+    tokenHash: string,
+    expiresAt: Date
+  ): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx
+        .delete(authTokens)
+        .where(
+          and(eq(authTokens.userId, userId), eq(authTokens.purpose, purpose))
+        );
+      await tx
+        .insert(authTokens)
+        .values({ userId, purpose, tokenHash, expiresAt });
+    });
+  }
+
+  async consumeAuthToken(
+    purpose: AuthTokenPurpose,
+    tokenHash: string
+  ): Promise<string | undefined> {
+    const [token] = await this.db
+      .delete(authTokens)
+      .where(
+        and(
+          eq(authTokens.tokenHash, tokenHash),
+          eq(authTokens.purpose, purpose),
+          gt(authTokens.expiresAt, new Date())
+        )
+      )
+      .returning({ userId: authTokens.userId });
+    return token?.userId;
+  }
+
+  async getAccessTokens(userId: string): Promise<AccessTokenInfo[]> {
+    return await this.db
+      .select(accessTokenColumns)
+      .from(personalAccessTokens)
+      .where(eq(personalAccessTokens.userId, userId))
+      .orderBy(desc(personalAccessTokens.createdAt));
+  }
+
+  async createAccessToken(
+    userId: string,
+    token: InsertAccessToken,
+    tokenHash: string,
+    tokenPrefix: string
+  ): Promise<AccessTokenInfo> {
+    const [created] = await this.db
+      .insert(personalAccessTokens)
+      .values({ ...token, userId, tokenHash, tokenPrefix })
+      .returning(accessTokenColumns);
+    return created!;
+  }
+
+  async deleteAccessToken(id: string, userId: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(personalAccessTokens)
+      .where(
+        and(
+          eq(personalAccessTokens.id, id),
+          eq(personalAccessTokens.userId, userId)
+        )
+      )
+      .returning({ id: personalAccessTokens.id });
+    return deleted.length > 0;
+  }
+
+  async authenticateAccessToken(
+    tokenHash: string
+  ): Promise<{ user: User; scopes: TokenScope[] } | undefined> {
+    const [token] = await this.db
+      .update(personalAccessTokens)
+      .set({ lastUsedAt: new Date() })
+      .where(eq(personalAccessTokens.tokenHash, tokenHash))
+      .returning({
+        userId: personalAccessTokens.userId,
+        scopes: personalAccessTokens.scopes,
+      });
+    if (!token) return undefined;
+
+    const user = await this.getUser(token.userId);
+    return user && { user, scopes: token.scopes };
+  }
+
+  // ロール変更は監査ログにも残す（actorId が null ならログイン時の ADMIN_EMAILS による付与）
+  async setUserRole(
+    userId: string,
+    role: UserRole,
+    actorId: string | null
+  ): Promise<User | undefined> {
+    return await this.db.transaction(async (tx) => {
+      const [user] = await tx
+        .update(users)
+        .set({ role, updatedAt: new Date() })
+        .where(eq(users.id, userId))
+        .returning();
+      if (!user) return undefined;
+
+      await tx.insert(moderationLogs).values({
+        moderatorId: actorId,
+        action: "change_role",
+        targetUserId: userId,
+        reason: `role: ${role}`,
+      });
+      return user;
+    });
+  }
+
+  // 件数は閲覧ユーザーから見える投稿だけを数える
+  async getUserProfile(
+    id: string,
+    viewerId?: string,
+    includeHidden = false
+  ): Promise<UserProfile | undefined> {
+    const user = await this.getUser(id);
+    if (!user) return undefined;
+
+    const visible = includeHidden ? undefined : this.visibleTo(viewerId);
+    const [postStats] = await this.db
+      .select({ count: count() })
+      .from(posts)
+      .where(and(eq(posts.userId, id), visible));
+    const [favoriteStats] = await this.db
+      .select({ count: count() })
+      .from(favorites)
+      .innerJoin(posts, eq(favorites.postId, posts.id))
+      .where(and(eq(posts.userId, id), visible));
+    const [followerStats] = await this.db
+      .select({
+        count: count(),
+        isFollowing: viewerId
+          ? sql<boolean>`coalesce(bool_or(${follows.followerId} = ${viewerId}), false)`
+          : sql<boolean>`false`,
+      })
+      .from(follows)
+      .where(eq(follows.followingId, id));
+    const [followingStats] = await this.db
+      .select({ count: count() })
+      .from(follows)
+      .where(eq(follows.followerId, id));
+
+    return {
+      ...toPublicUser(user),
+      bio: user.bio,
+      postCount: postStats?.count ?? 0,
+      favoriteCount: favoriteStats?.count ?? 0,
+      followerCount: followerStats?.count ?? 0,
+      followingCount: followingStats?.count ?? 0,
+      isFollowing: followerStats?.isFollowing ?? false,
+      createdAt: user.createdAt,
+    };
+  }
+
+  async updateUserProfile(
+    id: string,
+    changes: UpdateProfile
+  ): Promise<User | undefined> {
+    const [user] = await this.db
+      .update(users)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  async getUserExport(userId: string): Promise<UserExport | undefined> {
+    const profile = await this.getUser(userId);
+    if (!profile) return undefined;
+
+    const ownPosts = await this.db
+      .select({ id: posts.id })
+      .from(posts)
+      .where(eq(posts.userId, userId))
+      .orderBy(desc(posts.createdAt), desc(posts.id));
+    const collectionRows = await this.getCollections(userId);
+    const collectionPostRows = await this.db
+      .select({
+        collectionId: collectionPosts.collectionId,
+        postId: collectionPosts.postId,
+      })
+      .from(collectionPosts)
+      .innerJoin(collections, eq(collectionPosts.collectionId, collections.id))
+      .where(eq(collections.userId, userId))
+      .orderBy(collectionPosts.position);
+
+    return {
+      profile,
+      // 閲覧者を渡さないのでゾーニングは掛からない
+      posts: await this.hydratePosts(ownPosts.map((p) => p.id)),
+      favorites: await this.db
+        .select({ postId: favorites.postId, createdAt: favorites.createdAt })
+        .from(favorites)
+        .where(eq(favorites.userId, userId))
+        .orderBy(desc(favorites.createdAt)),
+      excludeTags: await this.getUserExcludeTags(userId),
+      comments: await this.db
+        .select()
+        .from(comments)
+        .where(eq(comments.userId, userId))
+        .orderBy(comments.createdAt),
+      following: await this.db
+        .select({
+          followingId: follows.followingId,
+          createdAt: follows.createdAt,
+        })
+        .from(follows)
+        .where(eq(follows.followerId, userId))
+        .orderBy(desc(follows.createdAt)),
+      zoningPresets: await this.getZoningPresets(userId),
+      collections: collectionRows.map((collection) => ({
+        ...collection,
+        postIds: collectionPostRows
+          .filter((row) => row.collectionId === collection.id)
+          .map((row) => row.postId),
+      })),
+    };
+  }
+
+  async deleteUser(id: string): Promise<DeletedUser | undefined> {
+    const result = await this.db.transaction(async (tx) => {
+      const covers = await tx
+        .select({
+          imageUrl: posts.imageUrl,
+          mediumUrl: posts.mediumUrl,
+          thumbnailUrl: posts.thumbnailUrl,
+        })
+        .from(posts)
+        .where(eq(posts.userId, id));
+      const images = await tx
+        .select({
+          imageUrl: postImages.imageUrl,
+          mediumUrl: postImages.mediumUrl,
+          thumbnailUrl: postImages.thumbnailUrl,
+        })
+        .from(postImages)
+        .innerJoin(posts, eq(postImages.postId, posts.id))
+        .where(eq(posts.userId, id));
+      const favorited = await tx
+        .select({ postId: favorites.postId })
+        .from(favorites)
+        .where(eq(favorites.userId, id));
+
+      const [deleted] = await tx
+        .delete(users)
+        .where(eq(users.id, id))
+        .returning({ id: users.id });
+      if (!deleted) return undefined;
+
+      // connect-pg-simple のセッション。passport は sess.passport.user に users.id を置く
+      await tx
+        .delete(sessions)
+        .where(sql`${sessions.sess} -> 'passport' ->> 'user' = ${id}`);
+
+      return {
+        imageUrls: imageUrlsOf([...covers, ...images]),
+        favoritedPostIds: favorited.map((f) => f.postId),
+      };
+    });
+    if (!result) return undefined;
+
+    // 他人の投稿に付けていたお気に入りの分を数え直す
+    await this.recountFavorites(result.favoritedPostIds);
+    return { imageUrls: result.imageUrls };
+  }
+
   async getAllTags(): Promise<Tag[]> {
-    return await db.select().from(tags).orderBy(tags.category, tags.name);
+    return await this.db.select().from(tags).orderBy(tags.category, tags.name);
   }
 
   async getTagsByCategory(category: TagCategory): Promise<Tag[]> {
-    return await db
+    return await this.db
       .select()
       .from(tags)
       .where(eq(tags.category, category))
       .orderBy(tags.name);
   }
 
+  // 同じ名前・カテゴリのタグがあればそれを返す（tags_name_category の一意制約で競合も防ぐ）
   async createTag(tag: InsertTag): Promise<Tag> {
-    const [newTag] = await db.insert(tags).values(tag).returning();
-    // @ts-ignore
-    return newTag;
+    const [newTag] = await this.db
+      .insert(tags)
+      .values(tag)
+      .onConflictDoNothing({ target: [tags.name, tags.category] })
+      .returning();
+    if (newTag) return newTag;
+
+    const [existingTag] = await this.db
+      .select()
+      .from(tags)
+      .where(and(eq(tags.name, tag.name), eq(tags.category, tag.category)));
+    return existingTag!;
   }
 
-  async getOrCreateTag(name: string, category: TagCategory): Promise<Tag> {
-    const [existingTag] = await db
+  async getOrCreateTag(
+    name: string,
+    category: TagCategory,
+    reading?: string
+  ): Promise<Tag> {
+    const [existingTag] = await this.db
       .select()
       .from(tags)
       .where(and(eq(tags.name, name), eq(tags.category, category)));
 
     if (existingTag) {
+      // 読みが未設定の既存タグには補完する
+      if (reading && !existingTag.reading) {
+        const [updated] = await this.db
+          .update(tags)
+          .set({ reading })
+          .where(eq(tags.id, existingTag.id))
+          .returning();
+        return updated ?? existingTag;
+      }
       return existingTag;
     }
 
-    return await this.createTag({ name, category });
+    // 別名として登録済みなら正規のタグを返す
+    const [alias] = await this.db
+      .select({ tag: tags })
+      .from(tagAliases)
+      .innerJoin(tags, eq(tagAliases.tagId, tags.id))
+      .where(and(eq(tagAliases.name, name), eq(tagAliases.category, category)));
+    if (alias) {
+      return alias.tag;
+    }
+
+    return await this.createTag({ name, category, reading: reading ?? null });
   }
 
-  // @ts-ignore
-  async getPosts(
-    limit: number = 20,
-    offset: number = 0,
-    tagIds?: string[],
-    userId?: string,
-    excludeTagIds?: string[] // ← 追加
-  ): Promise<PostWithTags[]> {
-    const isFavoritedExpr = userId
-      ? sql<boolean>`CASE WHEN ${favorites.userId} IS NOT NULL THEN true ELSE false END`
-      : sql<boolean>`false`;
+  async getTag(id: string): Promise<Tag | undefined> {
+    const [tag] = await this.db.select().from(tags).where(eq(tags.id, id));
+    return tag;
+  }
 
-    let query = db
-      .select({
-        post: posts,
-        user: users,
-        tag: tags,
-        isFavorited: isFavoritedExpr,
+  async deleteUnusedFreeTags(createdBefore: Date): Promise<number> {
+    const deleted = await this.db
+      .delete(tags)
+      .where(
+        and(
+          eq(tags.category, "自由"),
+          lt(tags.createdAt, createdBefore),
+          notInArray(
+            tags.id,
+            this.db.select({ id: postTags.tagId }).from(postTags)
+          ),
+          sql`NOT EXISTS (SELECT 1 FROM ${postImages} WHERE ${postImages.angleTagId} = ${tags.id})`,
+          sql`NOT EXISTS (SELECT 1 FROM ${userExcludeTags} WHERE ${userExcludeTags.tagId} = ${tags.id})`,
+          sql`NOT EXISTS (SELECT 1 FROM ${zoningPresetTags} WHERE ${zoningPresetTags.tagId} = ${tags.id})`,
+          sql`NOT EXISTS (SELECT 1 FROM tags AS children WHERE children.parent_id = ${tags.id})`
+        )
+      )
+      .returning({ id: tags.id });
+    return deleted.length;
+  }
+
+  // 自身を含む子孫タグの ID
+  async getTagDescendantIds(tagId: string): Promise<string[]> {
+    const rows = await this.db
+      .select({ id: tags.id })
+      .from(tags)
+      .where(inArray(tags.id, withDescendantTags([tagId])));
+    return rows.map((row) => row.id);
+  }
+
+  async setTagParent(
+    tagId: string,
+    parentId: string | null
+  ): Promise<Tag | undefined> {
+    const [updated] = await this.db
+      .update(tags)
+      .set({ parentId })
+      .where(eq(tags.id, tagId))
+      .returning();
+    return updated;
+  }
+
+  async getTagAliases(tagId?: string): Promise<TagAlias[]> {
+    return await this.db
+      .select()
+      .from(tagAliases)
+      .where(tagId ? eq(tagAliases.tagId, tagId) : undefined)
+      .orderBy(tagAliases.name);
+  }
+
+  async createTagAlias(
+    alias: InsertTagAlias,
+    tagId: string
+  ): Promise<TagAlias> {
+    const [newAlias] = await this.db
+      .insert(tagAliases)
+      .values({ ...alias, tagId })
+      .onConflictDoUpdate({
+        target: [tagAliases.name, tagAliases.category],
+        set: { tagId },
       })
-      .from(posts)
-      .leftJoin(users, eq(posts.userId, users.id))
-      .leftJoin(postTags, eq(posts.id, postTags.postId))
-      .leftJoin(tags, eq(postTags.tagId, tags.id));
+      .returning();
+    return newAlias!;
+  }
 
-    // favorites は userId がある場合だけ結合する
-    if (userId) {
-      query = query.leftJoin(
-        favorites,
-        and(eq(favorites.postId, posts.id), eq(favorites.userId, userId))
-      );
-    }
+  async deleteTagAlias(id: string): Promise<boolean> {
+    const result = await this.db
+      .delete(tagAliases)
+      .where(eq(tagAliases.id, id))
+      .returning();
+    return result.length > 0;
+  }
 
-    // タグでの AND フィルタ
-    if (tagIds && tagIds.length > 0) {
-      const postsWithAllTags = db
-        .select({ postId: postTags.postId })
+  // source を target に統合する。投稿・除外タグ・別名・子タグを付け替え、source の名前は別名として残す
+  async mergeTags(
+    sourceId: string,
+    targetId: string
+  ): Promise<Tag | undefined> {
+    if (sourceId === targetId) return undefined;
+
+    return await this.db.transaction(async (tx) => {
+      const [source] = await tx
+        .select()
+        .from(tags)
+        .where(eq(tags.id, sourceId));
+      const [target] = await tx
+        .select()
+        .from(tags)
+        .where(eq(tags.id, targetId));
+      if (!source || !target) return undefined;
+
+      // post_tags: target が既に付いている投稿には重複して付けない
+      const taggedPosts = await tx
+        .select({ postId: postTags.postId, tagId: postTags.tagId })
         .from(postTags)
-        .where(inArray(postTags.tagId, tagIds))
-        .groupBy(postTags.postId)
-        .having(eq(count(), tagIds.length));
+        .where(inArray(postTags.tagId, [sourceId, targetId]));
+      const targetPostIds = new Set(
+        taggedPosts.filter((r) => r.tagId === targetId).map((r) => r.postId)
+      );
+      const postIdsToMove = taggedPosts
+        .filter((r) => r.tagId === sourceId && !targetPostIds.has(r.postId))
+        .map((r) => r.postId);
+      if (postIdsToMove.length > 0) {
+        await tx
+          .insert(postTags)
+          .values(postIdsToMove.map((postId) => ({ postId, tagId: targetId })));
+      }
+      await tx.delete(postTags).where(eq(postTags.tagId, sourceId));
+
+      // user_exclude_tags も同様
+      const excludeRows = await tx
+        .select({
+          userId: userExcludeTags.userId,
+          tagId: userExcludeTags.tagId,
+        })
+        .from(userExcludeTags)
+        .where(inArray(userExcludeTags.tagId, [sourceId, targetId]));
+      const targetUserIds = new Set(
+        excludeRows.filter((r) => r.tagId === targetId).map((r) => r.userId)
+      );
+      const userIdsToMove = excludeRows
+        .filter((r) => r.tagId === sourceId && !targetUserIds.has(r.userId))
+        .map((r) => r.userId);
+      if (userIdsToMove.length > 0) {
+        await tx
+          .insert(userExcludeTags)
+          .values(userIdsToMove.map((userId) => ({ userId, tagId: targetId })));
+      }
+      await tx
+        .delete(userExcludeTags)
+        .where(eq(userExcludeTags.tagId, sourceId));
+
+      // ゾーニングプリセットのタグ（(presetId, tagId) は一意なので重複は捨てる）
+      const presetRows = await tx
+        .select({ presetId: zoningPresetTags.presetId })
+        .from(zoningPresetTags)
+        .where(eq(zoningPresetTags.tagId, sourceId));
+      if (presetRows.length > 0) {
+        await tx
+          .insert(zoningPresetTags)
+          .values(
+            presetRows.map(({ presetId }) => ({ presetId, tagId: targetId }))
+          )
+          .onConflictDoNothing();
+      }
+      await tx
+        .delete(zoningPresetTags)
+        .where(eq(zoningPresetTags.tagId, sourceId));
 
-      // @ts-ignore
-      query = query.where(inArray(posts.id, postsWithAllTags));
-    }
+      // 画像の角度タグは target も角度タグのときだけ引き継ぐ
+      await tx
+        .update(postImages)
+        .set({ angleTagId: target.category === "角度" ? targetId : null })
+        .where(eq(postImages.angleTagId, sourceId));
 
-    // フロントから渡された除外タグ（excludeTagIds）でフィルタ
-    if (excludeTagIds && excludeTagIds.length > 0) {
-      const postsWithExcludedTags = db
-        .select({ postId: postTags.postId })
-        .from(postTags)
-        .where(inArray(postTags.tagId, excludeTagIds));
+      await tx
+        .update(tags)
+        .set({ parentId: targetId })
+        .where(eq(tags.parentId, sourceId));
+      await tx
+        .update(tagAliases)
+        .set({ tagId: targetId })
+        .where(eq(tagAliases.tagId, sourceId));
+      await tx
+        .insert(tagAliases)
+        .values({
+          name: source.name,
+          category: source.category,
+          tagId: targetId,
+        })
+        .onConflictDoUpdate({
+          target: [tagAliases.name, tagAliases.category],
+          set: { tagId: targetId },
+        });
 
-      // @ts-ignore
-      query = query.where(notInArray(posts.id, postsWithExcludedTags));
-    }
+      await tx.delete(tags).where(eq(tags.id, sourceId));
+      return target;
+    });
+  }
 
-    // また、ユーザーが自身で設定した除外タグ（userExcludeTags テーブル）もサポート（既存のロジック）
-    if (userId) {
-      const excludedTagIds = db
-        .select({ tagId: userExcludeTags.tagId })
-        .from(userExcludeTags)
-        .where(eq(userExcludeTags.userId, userId));
+  async getTagStats(category?: TagCategory): Promise<TagWithCount[]> {
+    const postCount = sql<number>`count(${posts.id})::int`;
+    const rows = await this.db
+      .select({ tag: tags, postCount })
+      .from(tags)
+      .leftJoin(postTags, eq(postTags.tagId, tags.id))
+      .leftJoin(
+        posts,
+        and(eq(posts.id, postTags.postId), isNull(posts.hiddenAt))
+      )
+      .where(category ? eq(tags.category, category) : undefined)
+      .groupBy(tags.id)
+      .orderBy(desc(postCount), tags.category, tags.name);
+
+    return rows.map((row) => ({ ...row.tag, postCount: row.postCount }));
+  }
 
-      const postsWithUserExcludedTags = db
-        .select({ postId: postTags.postId })
-        .from(postTags)
-        .where(inArray(postTags.tagId, excludedTagIds));
+  async getCooccurringTags(
+    tagIds: string[],
+    { category, limit = 10 }: TagCooccurrenceOptions = {}
+  ): Promise<TagWithCount[]> {
+    if (tagIds.length === 0) return [];
+
+    const taggedPosts = this.db
+      .select({ postId: postTags.postId })
+      .from(postTags)
+      .innerJoin(posts, eq(posts.id, postTags.postId))
+      .where(and(inArray(postTags.tagId, tagIds), isNull(posts.hiddenAt)));
+
+    const postCount = sql<number>`count(distinct ${postTags.postId})::int`;
+    const rows = await this.db
+      .select({ tag: tags, postCount })
+      .from(postTags)
+      .innerJoin(tags, eq(postTags.tagId, tags.id))
+      .where(
+        and(
+          inArray(postTags.postId, taggedPosts),
+          notInArray(postTags.tagId, tagIds),
+          category ? eq(tags.category, category) : undefined
+        )
+      )
+      .groupBy(tags.id)
+      .orderBy(desc(postCount), tags.name)
+      .limit(limit);
+
+    return rows.map((row) => ({ ...row.tag, postCount: row.postCount }));
+  }
 
-      // @ts-ignore
-      query = query.where(notInArray(posts.id, postsWithUserExcludedTags));
+  async getPosts({
+    limit = 20,
+    cursor,
+    sort = "new",
+    offset = 0,
+    ...filters
+  }: PostListOptions = {}): Promise<PostPage> {
+    const conditions = this.postFilters(filters);
+
+    if (sort !== "new") {
+      const score =
+        sort === "popular"
+          ? sql`${posts.favoriteCount}`
+          : sql`${posts.favoriteCount} / power(extract(epoch from (now() - ${posts.createdAt})) / 3600 + 2, ${trendingGravity})`;
+      const ranked = await this.db
+        .select({ id: posts.id })
+        .from(posts)
+        .where(and(...conditions))
+        .orderBy(desc(score), desc(posts.createdAt), desc(posts.id))
+        .limit(limit + 1)
+        .offset(offset);
+
+      return {
+        posts: await this.hydratePosts(
+          ranked.slice(0, limit).map((row) => row.id),
+          filters.userId
+        ),
+        nextCursor:
+          ranked.length > limit ? encodeOffsetCursor(offset + limit) : null,
+      };
     }
 
-    const results = await query
-      .orderBy(desc(posts.createdAt))
-      .limit(limit)
-      .offset(offset);
+    if (cursor) {
+      conditions.push(keysetBefore(posts.createdAt, posts.id, cursor));
+    }
 
-    // Grouping/collect tags (既存ロジックをそのまま)
-    const postsMap = new Map<string, PostWithTags>();
+    // まず投稿IDだけをページングする（タグとの JOIN 行ではなく投稿単位で limit を効かせる）
+    const rows = await this.db
+      .select({
+        id: posts.id,
+        createdAt: sql<string>`${posts.createdAt}::text`,
+      })
+      .from(posts)
+      .where(and(...conditions))
+      .orderBy(desc(posts.createdAt), desc(posts.id))
+      .limit(limit + 1);
+
+    return {
+      posts: await this.hydratePosts(
+        rows.slice(0, limit).map((row) => row.id),
+        filters.userId
+      ),
+      nextCursor: nextCursorOf(rows, limit),
+    };
+  }
 
-    for (const result of results) {
-      const postId = result.post.id;
+  // キャプション・タグ名（読み含む）の検索。語ごとに AND、関連度順にオフセットでページングする
+  async searchPosts(
+    query: string,
+    { limit = 20, offset = 0, ...filters }: SearchOptions
+  ): Promise<PostPage> {
+    const tokens = tokenizeSearchQuery(query);
+    if (tokens.length === 0) return { posts: [], nextCursor: null };
 
-      if (!postsMap.has(postId)) {
-        postsMap.set(postId, {
-          ...result.post,
-          user: result.user!,
-          tags: [],
-          isFavorited: result.isFavorited,
-        });
-      }
+    const allTags = await this.getAllTags();
+    const aliases = await this.getTagAliases();
+    const conditions = this.postFilters(filters);
+    const scores: SQL[] = [];
 
-      if (result.tag) {
-        const existingPost = postsMap.get(postId)!;
-        if (!existingPost.tags.some((t) => t.id === result.tag!.id)) {
-          existingPost.tags.push(result.tag);
-        }
+    for (const token of tokens) {
+      const tagIds = matchingTagIds(token, allTags, aliases);
+      const captionMatch = sql`${posts.searchText} ILIKE ${`%${escapeLikePattern(token)}%`}`;
+
+      if (tagIds.length > 0) {
+        const tagMatch = inArray(posts.id, this.postsTaggedWith(tagIds));
+        conditions.push(or(tagMatch, captionMatch)!);
+        scores.push(sql`(CASE WHEN ${tagMatch} THEN 1 ELSE 0 END)`);
+      } else {
+        conditions.push(captionMatch);
       }
+      // pg_trgm の word_similarity でキャプションの近さを加点
+      scores.push(
+        sql`coalesce(word_similarity(${token}, ${posts.searchText}), 0)`
+      );
     }
 
-    return Array.from(postsMap.values());
+    const rank = sql<number>`${sql.join(scores, sql` + `)}`;
+    const rows = await this.db
+      .select({ id: posts.id })
+      .from(posts)
+      .where(and(...conditions))
+      .orderBy(desc(rank), desc(posts.createdAt), desc(posts.id))
+      .limit(limit + 1)
+      .offset(offset);
+
+    return {
+      posts: await this.hydratePosts(
+        rows.slice(0, limit).map((row) => row.id),
+        filters.userId
+      ),
+      nextCursor:
+        rows.length > limit ? encodeOffsetCursor(offset + limit) : null,
+    };
   }
 
   async getPost(
     id: string,
-    userId?: string
+    userId?: string,
+    includeHidden = false
   ): Promise<PostWithTags | undefined> {
-    const isFavoritedExpr = userId
-      ? sql<boolean>`CASE WHEN ${favorites.userId} IS NOT NULL THEN true ELSE false END`
-      : sql<boolean>`false`;
-
-    let query = db
-      .select({
-        post: posts,
-        user: users,
-        tag: tags,
-        isFavorited: isFavoritedExpr,
-      })
-      .from(posts)
-      .leftJoin(users, eq(posts.userId, users.id))
-      .leftJoin(postTags, eq(posts.id, postTags.postId))
-      .leftJoin(tags, eq(postTags.tagId, tags.id));
-
-    if (userId) {
-      query = query.leftJoin(
-        favorites,
-        and(eq(favorites.postId, posts.id), eq(favorites.userId, userId))
-      );
+    const [post] = await this.hydratePosts([id], userId);
+    if (post?.isHidden && !includeHidden && post.userId !== userId) {
+      return undefined;
     }
+    return post;
+  }
 
-    // @ts-ignore
-    query = query.where(eq(posts.id, id));
+  // getPosts / searchPosts 共通の絞り込み（タグ・除外タグ・ユーザーのゾーニング・投稿者）
+  private postFilters({
+    tagIds,
+    tagQuery,
+    excludeTagIds,
+    userId,
+    authorId,
+    followedBy,
+    includeHidden,
+  }: PostFilterOptions): SQL[] {
+    const conditions: SQL[] = [];
+
+    if (!includeHidden) {
+      conditions.push(this.visibleTo(userId));
+    }
 
-    const results = await query;
+    if (authorId) {
+      conditions.push(eq(posts.userId, authorId));
+    }
 
-    if (results.length === 0) return undefined;
+    if (followedBy) {
+      conditions.push(
+        inArray(
+          posts.userId,
+          this.db
+            .select({ id: follows.followingId })
+            .from(follows)
+            .where(eq(follows.followerId, followedBy))
+        )
+      );
+    }
 
-    // @ts-ignore
-    const postId = results[0].post.id;
-    const postWithTags: PostWithTags = {
-      // @ts-ignore
-      ...results[0].post,
-      // @ts-ignore
-      user: results[0].user!,
-      tags: [],
-      // @ts-ignore
-      isFavorited: results[0].isFavorited,
-    };
+    // タグでの AND フィルタ（各タグは子孫タグでも一致）
+    for (const tagId of tagIds ?? []) {
+      conditions.push(inArray(posts.id, this.postsTaggedWith([tagId])));
+    }
 
-    for (const row of results) {
-      // @ts-ignore
-      if (row.tag && !postWithTags.tags.some((t) => t.id === row.tag.id)) {
-        postWithTags.tags.push(row.tag);
-      }
+    if (tagQuery) {
+      conditions.push(this.compileTagQuery(tagQuery));
     }
 
-    return postWithTags;
-  }
+    // フロントから渡された除外タグ（excludeTagIds）でフィルタ
+    if (excludeTagIds && excludeTagIds.length > 0) {
+      conditions.push(
+        notInArray(posts.id, this.postsTaggedWith(excludeTagIds))
+      );
+    }
 
-  async createPost(post: InsertPost, tagIds: string[]): Promise<Post> {
-    const result = await db.transaction(async (tx) => {
-      const [newPost] = await tx.insert(posts).values(post).returning();
+    // ユーザーのゾーニング（有効な hide プリセット、なければ userExcludeTags）
+    if (userId) {
+      conditions.push(
+        notInArray(
+          posts.id,
+          this.postsTaggedWith(this.hiddenZoningTagIds(userId))
+        )
+      );
+    }
+
+    return conditions;
+  }
+
+  // 非表示でない投稿、または閲覧ユーザー自身の投稿
+  private visibleTo(userId: string | undefined): SQL {
+    return userId
+      ? or(isNull(posts.hiddenAt), eq(posts.userId, userId))!
+      : isNull(posts.hiddenAt);
+  }
+
+  // hide モードで隠すタグ ID のサブクエリ
+  private hiddenZoningTagIds(userId: string): SQL {
+    return sql`(
+      SELECT ${zoningPresetTags.tagId} FROM ${zoningPresetTags}
+      JOIN ${zoningPresets} ON ${zoningPresets.id} = ${zoningPresetTags.presetId}
+      WHERE ${zoningPresets.userId} = ${userId}
+        AND ${zoningPresets.isActive} AND ${zoningPresets.mode} = 'hide'
+      UNION ALL
+      SELECT ${userExcludeTags.tagId} FROM ${userExcludeTags}
+      WHERE ${userExcludeTags.userId} = ${userId}
+        AND NOT EXISTS (
+          SELECT 1 FROM ${zoningPresets}
+          WHERE ${zoningPresets.userId} = ${userId} AND ${zoningPresets.isActive}
+        )
+    )`;
+  }
+
+  // 有効な blur プリセットのタグと、それぞれの子孫タグ ID（自身を含む）
+  private async blurZoning(
+    userId: string
+  ): Promise<{ tag: Tag; tagIds: Set<string> }[]> {
+    const blurTags = await this.db
+      .select({ tag: tags })
+      .from(zoningPresetTags)
+      .innerJoin(zoningPresets, eq(zoningPresets.id, zoningPresetTags.presetId))
+      .innerJoin(tags, eq(tags.id, zoningPresetTags.tagId))
+      .where(
+        and(
+          eq(zoningPresets.userId, userId),
+          eq(zoningPresets.isActive, true),
+          eq(zoningPresets.mode, "blur")
+        )
+      );
+    if (blurTags.length === 0) return [];
+
+    const result = await this.db.execute<{ root: string; id: string }>(sql`
+      WITH RECURSIVE descendants(root, id) AS (
+        SELECT id, id FROM tags WHERE id IN ${blurTags.map(({ tag }) => tag.id)}
+        UNION
+        SELECT descendants.root, tags.id FROM tags
+        JOIN descendants ON tags.parent_id = descendants.id
+      ) SELECT root, id FROM descendants`);
+
+    return blurTags.map(({ tag }) => ({
+      tag,
+      tagIds: new Set(
+        result.rows.filter((row) => row.root === tag.id).map((row) => row.id)
+      ),
+    }));
+  }
+
+  // 指定タグまたはその子孫タグが付いた投稿IDのサブクエリ
+  private postsTaggedWith(tagIds: string[] | SQLWrapper) {
+    return this.db
+      .select({ postId: postTags.postId })
+      .from(postTags)
+      .where(inArray(postTags.tagId, withDescendantTags(tagIds)));
+  }
+
+  // タグクエリを postTags のサブクエリの AND / OR / NOT に変換する
+  private compileTagQuery(query: ResolvedTagQuery): SQL {
+    switch (query.type) {
+      case "tags":
+        return inArray(posts.id, this.postsTaggedWith(query.tagIds));
+      case "and":
+        return and(
+          ...query.children.map((child) => this.compileTagQuery(child))
+        )!;
+      case "or":
+        return or(
+          ...query.children.map((child) => this.compileTagQuery(child))
+        )!;
+      case "not":
+        return not(this.compileTagQuery(query.child));
+    }
+  }
+
+  // 投稿IDの一覧からユーザー・タグ・お気に入り状態を読み込み、IDの順序を保って返す
+  private async hydratePosts(
+    postIds: string[],
+    userId?: string
+  ): Promise<PostWithTags[]> {
+    if (postIds.length === 0) return [];
+
+    const isFavoritedExpr = userId
+      ? sql<boolean>`CASE WHEN ${favorites.userId} IS NOT NULL THEN true ELSE false END`
+      : sql<boolean>`false`;
+
+    let query = this.db
+      .select({
+        post: posts,
+        user: users,
+        tag: tags,
+        isFavorited: isFavoritedExpr,
+      })
+      .from(posts)
+      .leftJoin(users, eq(posts.userId, users.id))
+      .leftJoin(postTags, eq(posts.id, postTags.postId))
+      .leftJoin(tags, eq(postTags.tagId, tags.id));
+
+    // favorites は userId がある場合だけ結合する
+    if (userId) {
+      query = query.leftJoin(
+        favorites,
+        and(eq(favorites.postId, posts.id), eq(favorites.userId, userId))
+      );
+    }
+
+    const results = await query.where(inArray(posts.id, postIds));
+
+    const imageRows = await this.db
+      .select()
+      .from(postImages)
+      .where(inArray(postImages.postId, postIds))
+      .orderBy(postImages.postId, postImages.position);
+
+    const commentCounts = await this.db
+      .select({ postId: comments.postId, count: count() })
+      .from(comments)
+      .where(inArray(comments.postId, postIds))
+      .groupBy(comments.postId);
+
+    // Grouping/collect tags
+    const postsMap = new Map<string, PostWithTags>();
+
+    for (const result of results) {
+      const postId = result.post.id;
+
+      if (!postsMap.has(postId)) {
+        const images = imageRows.filter((image) => image.postId === postId);
+        postsMap.set(postId, {
+          ...toPublicPost(result.post),
+          user: toPublicUser(result.user!),
+          tags: [],
+          images: images.length > 0 ? images : [legacyCoverImage(result.post)],
+          isFavorited: result.isFavorited,
+          isEdited: isEdited(result.post),
+          commentCount:
+            commentCounts.find((row) => row.postId === postId)?.count ?? 0,
+        });
+      }
+
+      if (result.tag) {
+        const existingPost = postsMap.get(postId)!;
+        if (!existingPost.tags.some((t) => t.id === result.tag!.id)) {
+          existingPost.tags.push(result.tag);
+        }
+      }
+    }
+
+    // blur モードでは投稿を残し、一致したタグを付けて返す
+    const blurZoning = userId ? await this.blurZoning(userId) : [];
+    for (const post of postsMap.values()) {
+      const zonedBy = blurZoning
+        .filter(({ tagIds }) => post.tags.some((tag) => tagIds.has(tag.id)))
+        .map(({ tag }) => tag);
+      if (zonedBy.length > 0) post.zonedBy = zonedBy;
+    }
+
+    return postIds
+      .map((id) => postsMap.get(id))
+      .filter((post): post is PostWithTags => Boolean(post));
+  }
+
+  async createPost(
+    post: InsertPost,
+    tagIds: string[],
+    images: InsertPostImage[] = []
+  ): Promise<Post> {
+    const result = await this.db.transaction(async (tx) => {
+      const [newPost] = await tx
+        .insert(posts)
+        .values({
+          ...post,
+          searchText: normalizeSearchText(post.caption ?? ""),
+        })
+        .returning();
+      if (!newPost) throw new Error("Failed to insert post");
+
+      if (images.length > 0) {
+        await tx.insert(postImages).values(
+          images.map((image, position) => ({
+            ...image,
+            postId: newPost.id,
+            position,
+          }))
+        );
+      }
 
       if (tagIds.length > 0) {
         await tx.insert(postTags).values(
           tagIds.map((tagId) => ({
-            // @ts-ignore
             postId: newPost.id,
             tagId,
           }))
@@ -288,12 +1448,60 @@ export class DatabaseStorage implements IStorage {
       return newPost;
     });
 
-    // @ts-ignore
     return result;
   }
 
+  // 投稿者本人のみ更新できる。tagIds / images を渡した場合は丸ごと置き換える
+  async updatePost(
+    id: string,
+    userId: string,
+    changes: UpdatePost,
+    tagIds?: string[],
+    images?: InsertPostImage[]
+  ): Promise<Post | undefined> {
+    return await this.db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(posts)
+        .set({
+          ...changes,
+          ...(changes.caption !== undefined && {
+            searchText: normalizeSearchText(changes.caption ?? ""),
+          }),
+          updatedAt: new Date(),
+        })
+        .where(and(eq(posts.id, id), eq(posts.userId, userId)))
+        .returning();
+
+      if (!updated) return undefined;
+
+      if (tagIds) {
+        await tx.delete(postTags).where(eq(postTags.postId, id));
+        if (tagIds.length > 0) {
+          await tx
+            .insert(postTags)
+            .values(tagIds.map((tagId) => ({ postId: id, tagId })));
+        }
+      }
+
+      if (images) {
+        await tx.delete(postImages).where(eq(postImages.postId, id));
+        if (images.length > 0) {
+          await tx.insert(postImages).values(
+            images.map((image, position) => ({
+              ...image,
+              postId: id,
+              position,
+            }))
+          );
+        }
+      }
+
+      return updated;
+    });
+  }
+
   async deletePost(id: string, userId: string): Promise<boolean> {
-    const result = await db
+    const result = await this.db
       .delete(posts)
       .where(and(eq(posts.id, id), eq(posts.userId, userId)))
       .returning();
@@ -301,75 +1509,342 @@ export class DatabaseStorage implements IStorage {
     return result.length > 0;
   }
 
+  async getComments(postId: string): Promise<CommentThread[]> {
+    const rows = await this.db
+      .select({ comment: comments, user: users })
+      .from(comments)
+      .innerJoin(users, eq(comments.userId, users.id))
+      .where(eq(comments.postId, postId))
+      .orderBy(comments.createdAt, comments.id);
+
+    const withUsers = rows.map(({ comment, user }) => ({
+      ...comment,
+      user: toPublicUser(user),
+    }));
+    return withUsers
+      .filter((comment) => !comment.parentId)
+      .map((comment) => ({
+        ...comment,
+        replies: withUsers.filter((reply) => reply.parentId === comment.id),
+      }));
+  }
+
+  async getComment(id: string): Promise<Comment | undefined> {
+    const [comment] = await this.db
+      .select()
+      .from(comments)
+      .where(eq(comments.id, id));
+    return comment;
+  }
+
+  async createComment(
+    postId: string,
+    userId: string,
+    comment: InsertComment
+  ): Promise<Comment> {
+    const [created] = await this.db
+      .insert(comments)
+      .values({ ...comment, postId, userId })
+      .returning();
+
+    const [post] = await this.db
+      .select({ userId: posts.userId })
+      .from(posts)
+      .where(eq(posts.id, postId));
+    const parent = comment.parentId
+      ? await this.getComment(comment.parentId)
+      : undefined;
+    if (post) {
+      await this.notify({
+        userId: post.userId,
+        actorId: userId,
+        type: "comment",
+        postId,
+        commentId: created!.id,
+      });
+    }
+    // 返信先のコメント主にも知らせる（投稿の持ち主と同じなら 1 件で十分）
+    if (parent && parent.userId !== post?.userId) {
+      await this.notify({
+        userId: parent.userId,
+        actorId: userId,
+        type: "reply",
+        postId,
+        commentId: created!.id,
+      });
+    }
+    return created!;
+  }
+
+  // 権限（コメント投稿者または投稿の持ち主）はルート側で確認する。返信も cascade で消える
+  async deleteComment(id: string): Promise<boolean> {
+    const result = await this.db
+      .delete(comments)
+      .where(eq(comments.id, id))
+      .returning({ id: comments.id });
+    return result.length > 0;
+  }
+
+  async followUser(followerId: string, followingId: string): Promise<void> {
+    await this.db
+      .insert(follows)
+      .values({ followerId, followingId })
+      .onConflictDoNothing();
+
+    await this.notify({
+      userId: followingId,
+      actorId: followerId,
+      type: "follow",
+      dedupeKey: `follow:${followerId}`,
+    });
+  }
+
+  async unfollowUser(followerId: string, followingId: string): Promise<void> {
+    await this.db
+      .delete(follows)
+      .where(
+        and(
+          eq(follows.followerId, followerId),
+          eq(follows.followingId, followingId)
+        )
+      );
+  }
+
+  async getFollowers(
+    userId: string,
+    options: PageOptions = {}
+  ): Promise<UserPage> {
+    return await this.followPage(
+      follows.followerId,
+      eq(follows.followingId, userId),
+      options
+    );
+  }
+
+  async getFollowing(
+    userId: string,
+    options: PageOptions = {}
+  ): Promise<UserPage> {
+    return await this.followPage(
+      follows.followingId,
+      eq(follows.followerId, userId),
+      options
+    );
+  }
+
+  // フォローした日時の新しい順（カーソルの id は一覧に出すユーザーの id）
+  private async followPage(
+    userColumn: typeof follows.followerId | typeof follows.followingId,
+    condition: SQL,
+    { limit = 20, cursor }: PageOptions
+  ): Promise<UserPage> {
+    const conditions: SQL[] = [condition];
+    if (cursor) {
+      conditions.push(keysetBefore(follows.createdAt, userColumn, cursor));
+    }
+
+    const rows = await this.db
+      .select({
+        id: userColumn,
+        createdAt: sql<string>`${follows.createdAt}::text`,
+        user: users,
+      })
+      .from(follows)
+      .innerJoin(users, eq(userColumn, users.id))
+      .where(and(...conditions))
+      .orderBy(desc(follows.createdAt), desc(userColumn))
+      .limit(limit + 1);
+
+    return {
+      users: rows.slice(0, limit).map((row) => toPublicUser(row.user)),
+      nextCursor: nextCursorOf(rows, limit),
+    };
+  }
+
   async addFavorite(userId: string, postId: string): Promise<void> {
-    await db.insert(favorites).values({ userId, postId }).onConflictDoNothing();
+    await this.db.transaction(async (tx) => {
+      const inserted = await tx
+        .insert(favorites)
+        .values({ userId, postId })
+        .onConflictDoNothing()
+        .returning({ postId: favorites.postId });
+      if (inserted.length > 0) {
+        await tx
+          .update(posts)
+          .set({ favoriteCount: sql`${posts.favoriteCount} + 1` })
+          .where(eq(posts.id, postId));
+      }
+    });
+
+    const [post] = await this.db
+      .select({ userId: posts.userId })
+      .from(posts)
+      .where(eq(posts.id, postId));
+    if (post) {
+      await this.notify({
+        userId: post.userId,
+        actorId: userId,
+        type: "favorite",
+        postId,
+        dedupeKey: `favorite:${userId}:${postId}`,
+      });
+    }
   }
 
   async removeFavorite(userId: string, postId: string): Promise<void> {
-    await db
-      .delete(favorites)
-      .where(and(eq(favorites.userId, userId), eq(favorites.postId, postId)));
+    await this.db.transaction(async (tx) => {
+      const deleted = await tx
+        .delete(favorites)
+        .where(and(eq(favorites.userId, userId), eq(favorites.postId, postId)))
+        .returning({ postId: favorites.postId });
+      if (deleted.length > 0) {
+        await tx
+          .update(posts)
+          .set({ favoriteCount: sql`greatest(${posts.favoriteCount} - 1, 0)` })
+          .where(eq(posts.id, postId));
+      }
+    });
+  }
+
+  async recountFavorites(postIds?: string[]): Promise<void> {
+    if (postIds?.length === 0) return;
+    await this.db
+      .update(posts)
+      .set({
+        favoriteCount: sql`(SELECT count(*) FROM ${favorites} WHERE ${favorites.postId} = ${posts.id})::int`,
+      })
+      .where(postIds ? inArray(posts.id, postIds) : undefined);
   }
 
   async getUserFavorites(
     userId: string,
-    limit: number = 20,
-    offset: number = 0
-  ): Promise<PostWithTags[]> {
-    const results = await db
+    { limit = 20, cursor, includeHidden }: FavoriteListOptions = {}
+  ): Promise<PostPage> {
+    const conditions: SQL[] = [eq(favorites.userId, userId)];
+
+    if (!includeHidden) {
+      conditions.push(this.visibleTo(userId));
+    }
+
+    // お気に入りは登録日時の新しい順（カーソルの id は postId）
+    if (cursor) {
+      conditions.push(
+        keysetBefore(favorites.createdAt, favorites.postId, cursor)
+      );
+    }
+
+    const rows = await this.db
       .select({
-        post: posts,
-        user: users,
-        tag: tags,
-        isFavorited: sql<boolean>`true`,
+        id: favorites.postId,
+        createdAt: sql<string>`${favorites.createdAt}::text`,
       })
       .from(favorites)
-      .leftJoin(posts, eq(favorites.postId, posts.id))
-      .leftJoin(users, eq(posts.userId, users.id))
-      .leftJoin(postTags, eq(posts.id, postTags.postId))
-      .leftJoin(tags, eq(postTags.tagId, tags.id))
-      .where(eq(favorites.userId, userId))
-      .orderBy(desc(favorites.createdAt))
-      .limit(limit)
-      .offset(offset);
-
-    // Group results by post
-    const postsMap = new Map<string, PostWithTags>();
+      .innerJoin(posts, eq(favorites.postId, posts.id))
+      .where(and(...conditions))
+      .orderBy(desc(favorites.createdAt), desc(favorites.postId))
+      .limit(limit + 1);
+
+    return {
+      posts: await this.hydratePosts(
+        rows.slice(0, limit).map((row) => row.id),
+        userId
+      ),
+      nextCursor: nextCursorOf(rows, limit),
+    };
+  }
 
-    for (const result of results) {
-      if (!result.post) continue;
+  async getNotifications(
+    userId: string,
+    { limit = 20, cursor, unreadOnly }: NotificationListOptions = {}
+  ): Promise<NotificationPage> {
+    const conditions: SQL[] = [eq(notifications.userId, userId)];
+    if (unreadOnly) {
+      conditions.push(isNull(notifications.readAt));
+    }
+    if (cursor) {
+      conditions.push(
+        keysetBefore(notifications.createdAt, notifications.id, cursor)
+      );
+    }
 
-      const postId = result.post.id;
+    const rows = await this.db
+      .select({
+        notification: notifications,
+        actor: users,
+        id: notifications.id,
+        createdAt: sql<string>`${notifications.createdAt}::text`,
+      })
+      .from(notifications)
+      .innerJoin(users, eq(notifications.actorId, users.id))
+      .where(and(...conditions))
+      .orderBy(desc(notifications.createdAt), desc(notifications.id))
+      .limit(limit + 1);
+
+    return {
+      notifications: rows.slice(0, limit).map((row) => ({
+        ...row.notification,
+        actor: toPublicUser(row.actor),
+      })),
+      nextCursor: nextCursorOf(rows, limit),
+    };
+  }
 
-      if (!postsMap.has(postId)) {
-        postsMap.set(postId, {
-          ...result.post,
-          user: result.user!,
-          tags: [],
-          isFavorited: true,
-        });
-      }
+  async getUnreadNotificationCount(userId: string): Promise<number> {
+    const [result] = await this.db
+      .select({ count: count() })
+      .from(notifications)
+      .where(
+        and(eq(notifications.userId, userId), isNull(notifications.readAt))
+      );
+    return result?.count ?? 0;
+  }
 
-      if (result.tag) {
-        const existingPost = postsMap.get(postId)!;
-        if (!existingPost.tags.some((t) => t.id === result.tag!.id)) {
-          existingPost.tags.push(result.tag);
-        }
-      }
+  async markNotificationsRead(userId: string, ids?: string[]): Promise<number> {
+    const conditions: SQL[] = [
+      eq(notifications.userId, userId),
+      isNull(notifications.readAt),
+    ];
+    if (ids) {
+      if (ids.length === 0) return 0;
+      conditions.push(inArray(notifications.id, ids));
     }
 
-    return Array.from(postsMap.values());
+    const updated = await this.db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(...conditions))
+      .returning({ id: notifications.id });
+
+    if (updated.length > 0) publishNotificationEvent({ userId });
+    return updated.length;
+  }
+
+  // 自分自身の操作は通知しない。dedupeKey が重複する通知は作らない
+  private async notify(values: InsertNotification): Promise<void> {
+    if (values.userId === values.actorId) return;
+
+    const [created] = await this.db
+      .insert(notifications)
+      .values(values)
+      .onConflictDoNothing()
+      .returning();
+    if (created) {
+      publishNotificationEvent({
+        userId: created.userId,
+        notification: created,
+      });
+    }
   }
 
   async addExcludeTag(userId: string, tagId: string): Promise<void> {
-    await db
+    await this.db
       .insert(userExcludeTags)
       .values({ userId, tagId })
       .onConflictDoNothing();
   }
 
   async removeExcludeTag(userId: string, tagId: string): Promise<void> {
-    await db
+    await this.db
       .delete(userExcludeTags)
       .where(
         and(
@@ -380,7 +1855,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getUserExcludeTags(userId: string): Promise<Tag[]> {
-    const results = await db
+    const results = await this.db
       .select({ tag: tags })
       .from(userExcludeTags)
       .leftJoin(tags, eq(userExcludeTags.tagId, tags.id))
@@ -391,7 +1866,7 @@ export class DatabaseStorage implements IStorage {
 
   // replace user's exclude tags with given array (transactional)
   async setUserExcludeTags(userId: string, tagIds: string[]): Promise<void> {
-    await db.transaction(async (tx) => {
+    await this.db.transaction(async (tx) => {
       // delete existing
       await tx
         .delete(userExcludeTags)
@@ -405,10 +1880,521 @@ export class DatabaseStorage implements IStorage {
     });
   }
 
+  // 同じユーザーの再通報は理由を更新して未対応に戻す
+  async createReport(
+    postId: string,
+    reporterId: string,
+    report: InsertReport
+  ): Promise<PostReport> {
+    const [created] = await this.db
+      .insert(postReports)
+      .values({ ...report, postId, reporterId })
+      .onConflictDoUpdate({
+        target: [postReports.postId, postReports.reporterId],
+        set: {
+          reason: report.reason,
+          note: report.note ?? null,
+          status: "open",
+          resolvedBy: null,
+          resolvedAt: null,
+          createdAt: new Date(),
+        },
+      })
+      .returning();
+    return created!;
+  }
+
+  // 未対応の通報が付いた投稿を通報数の多い順（同数なら最新の通報順）に返す
+  async getModerationQueue({
+    limit = 20,
+    offset = 0,
+  }: OffsetPageOptions = {}): Promise<ModerationQueuePage> {
+    const rows = await this.db
+      .select({ postId: postReports.postId })
+      .from(postReports)
+      .where(eq(postReports.status, "open"))
+      .groupBy(postReports.postId)
+      .orderBy(
+        desc(count()),
+        desc(max(postReports.createdAt)),
+        desc(postReports.postId)
+      )
+      .limit(limit + 1)
+      .offset(offset);
+
+    const postIds = rows.slice(0, limit).map((row) => row.postId);
+    const hydrated = await this.hydratePosts(postIds);
+    const reports =
+      postIds.length > 0
+        ? await this.db
+            .select()
+            .from(postReports)
+            .where(
+              and(
+                inArray(postReports.postId, postIds),
+                eq(postReports.status, "open")
+              )
+            )
+            .orderBy(desc(postReports.createdAt))
+        : [];
+
+    return {
+      items: hydrated.map((post) => ({
+        post,
+        reports: reports.filter((report) => report.postId === post.id),
+      })),
+      nextCursor:
+        rows.length > limit ? encodeOffsetCursor(offset + limit) : null,
+    };
+  }
+
+  // 非表示にすると未対応の通報は対応済みになる
+  async setPostHidden(
+    postId: string,
+    moderatorId: string,
+    hidden: boolean,
+    reason?: string
+  ): Promise<Post | undefined> {
+    return await this.db.transaction(async (tx) => {
+      const [post] = await tx
+        .update(posts)
+        .set({ hiddenAt: hidden ? new Date() : null })
+        .where(eq(posts.id, postId))
+        .returning();
+      if (!post) return undefined;
+
+      if (hidden) {
+        await tx
+          .update(postReports)
+          .set({
+            status: "resolved",
+            resolvedBy: moderatorId,
+            resolvedAt: new Date(),
+          })
+          .where(
+            and(eq(postReports.postId, postId), eq(postReports.status, "open"))
+          );
+      }
+
+      await tx.insert(moderationLogs).values({
+        moderatorId,
+        action: hidden ? "hide" : "restore",
+        postId,
+        targetUserId: post.userId,
+        reason: reason ?? null,
+      });
+      return post;
+    });
+  }
+
+  async dismissReports(
+    postId: string,
+    moderatorId: string,
+    reason?: string
+  ): Promise<number> {
+    return await this.db.transaction(async (tx) => {
+      const dismissed = await tx
+        .update(postReports)
+        .set({
+          status: "dismissed",
+          resolvedBy: moderatorId,
+          resolvedAt: new Date(),
+        })
+        .where(
+          and(eq(postReports.postId, postId), eq(postReports.status, "open"))
+        )
+        .returning({ id: postReports.id });
+      if (dismissed.length === 0) return 0;
+
+      await tx.insert(moderationLogs).values({
+        moderatorId,
+        action: "dismiss_reports",
+        postId,
+        reason: reason ?? null,
+      });
+      return dismissed.length;
+    });
+  }
+
+  async getModerationLogs({
+    limit = 20,
+    offset = 0,
+    postId,
+  }: ModerationLogOptions = {}): Promise<ModerationLogPage> {
+    const rows = await this.db
+      .select()
+      .from(moderationLogs)
+      .where(postId ? eq(moderationLogs.postId, postId) : undefined)
+      .orderBy(desc(moderationLogs.createdAt), desc(moderationLogs.id))
+      .limit(limit + 1)
+      .offset(offset);
+
+    return {
+      logs: rows.slice(0, limit),
+      nextCursor:
+        rows.length > limit ? encodeOffsetCursor(offset + limit) : null,
+    };
+  }
+
+  async getCollections(userId: string): Promise<CollectionWithCount[]> {
+    return await this.collectionsWhere(eq(collections.userId, userId));
+  }
+
+  async getCollection(id: string): Promise<CollectionWithCount | undefined> {
+    const [collection] = await this.collectionsWhere(eq(collections.id, id));
+    return collection;
+  }
+
+  async getCollectionByShareToken(
+    shareToken: string
+  ): Promise<CollectionWithCount | undefined> {
+    const [collection] = await this.collectionsWhere(
+      eq(collections.shareToken, shareToken)
+    );
+    return collection;
+  }
+
+  async createCollection(
+    userId: string,
+    collection: InsertCollection
+  ): Promise<CollectionWithCount> {
+    const [created] = await this.db
+      .insert(collections)
+      .values({ ...collection, userId })
+      .returning();
+    return (await this.getCollection(created!.id))!;
+  }
+
+  async updateCollection(
+    id: string,
+    userId: string,
+    changes: UpdateCollection
+  ): Promise<CollectionWithCount | undefined> {
+    return await this.touchCollection(id, userId, changes);
+  }
+
+  async setCollectionShareToken(
+    id: string,
+    userId: string,
+    shareToken: string | null
+  ): Promise<CollectionWithCount | undefined> {
+    return await this.touchCollection(id, userId, { shareToken });
+  }
+
+  async deleteCollection(id: string, userId: string): Promise<boolean> {
+    const result = await this.db
+      .delete(collections)
+      .where(and(eq(collections.id, id), eq(collections.userId, userId)))
+      .returning({ id: collections.id });
+    return result.length > 0;
+  }
+
+  async getCollectionPosts(
+    collectionId: string,
+    {
+      limit = 20,
+      offset = 0,
+      userId,
+      includeHidden,
+    }: CollectionPostListOptions = {}
+  ): Promise<PostPage> {
+    // 閲覧者のゾーニング（hide）と非表示投稿は通常の一覧と同じく除く
+    const rows = await this.db
+      .select({ id: collectionPosts.postId })
+      .from(collectionPosts)
+      .innerJoin(posts, eq(collectionPosts.postId, posts.id))
+      .where(
+        and(
+          eq(collectionPosts.collectionId, collectionId),
+          ...this.postFilters({ userId, includeHidden })
+        )
+      )
+      .orderBy(asc(collectionPosts.position), asc(collectionPosts.postId))
+      .limit(limit + 1)
+      .offset(offset);
+
+    return {
+      posts: await this.hydratePosts(
+        rows.slice(0, limit).map((row) => row.id),
+        userId
+      ),
+      nextCursor:
+        rows.length > limit ? encodeOffsetCursor(offset + limit) : null,
+    };
+  }
+
+  async addCollectionPost(
+    collectionId: string,
+    postId: string
+  ): Promise<boolean> {
+    return await this.db.transaction(async (tx) => {
+      const added = await tx
+        .insert(collectionPosts)
+        .values({
+          collectionId,
+          postId,
+          position: sql`(
+            SELECT coalesce(max(${collectionPosts.position}), -1) + 1
+            FROM ${collectionPosts}
+            WHERE ${collectionPosts.collectionId} = ${collectionId}
+          )`,
+        })
+        .onConflictDoNothing()
+        .returning({ postId: collectionPosts.postId });
+      if (added.length === 0) return false;
+
+      await tx
+        .update(collections)
+        .set({ updatedAt: new Date() })
+        .where(eq(collections.id, collectionId));
+      return true;
+    });
+  }
+
+  async removeCollectionPost(
+    collectionId: string,
+    postId: string
+  ): Promise<boolean> {
+    return await this.db.transaction(async (tx) => {
+      const removed = await tx
+        .delete(collectionPosts)
+        .where(
+          and(
+            eq(collectionPosts.collectionId, collectionId),
+            eq(collectionPosts.postId, postId)
+          )
+        )
+        .returning({ postId: collectionPosts.postId });
+      if (removed.length === 0) return false;
+
+      await tx
+        .update(collections)
+        .set({ updatedAt: new Date() })
+        .where(eq(collections.id, collectionId));
+      return true;
+    });
+  }
+
+  async reorderCollectionPosts(
+    collectionId: string,
+    postIds: string[]
+  ): Promise<boolean> {
+    return await this.db.transaction(async (tx) => {
+      const current = await tx
+        .select({ postId: collectionPosts.postId })
+        .from(collectionPosts)
+        .where(eq(collectionPosts.collectionId, collectionId));
+
+      // 過不足や重複があれば並べ替えない
+      const requested = new Set(postIds);
+      if (
+        requested.size !== postIds.length ||
+        requested.size !== current.length ||
+        !current.every((row) => requested.has(row.postId))
+      ) {
+        return false;
+      }
+
+      for (const [position, postId] of postIds.entries()) {
+        await tx
+          .update(collectionPosts)
+          .set({ position })
+          .where(
+            and(
+              eq(collectionPosts.collectionId, collectionId),
+              eq(collectionPosts.postId, postId)
+            )
+          );
+      }
+      await tx
+        .update(collections)
+        .set({ updatedAt: new Date() })
+        .where(eq(collections.id, collectionId));
+      return true;
+    });
+  }
+
+  // 所有者と投稿数を付けて、更新の新しい順に返す
+  private async collectionsWhere(
+    condition: SQL
+  ): Promise<CollectionWithCount[]> {
+    const rows = await this.db
+      .select({
+        collection: collections,
+        user: users,
+        postCount: sql<number>`(
+          SELECT count(*)::int FROM ${collectionPosts}
+          WHERE ${collectionPosts.collectionId} = ${collections.id}
+        )`,
+      })
+      .from(collections)
+      .innerJoin(users, eq(collections.userId, users.id))
+      .where(condition)
+      .orderBy(desc(collections.updatedAt), desc(collections.id));
+
+    return rows.map(({ collection, user, postCount }) => ({
+      ...collection,
+      user: toPublicUser(user),
+      postCount,
+    }));
+  }
+
+  private async touchCollection(
+    id: string,
+    userId: string,
+    changes: UpdateCollection & { shareToken?: string | null }
+  ): Promise<CollectionWithCount | undefined> {
+    const [updated] = await this.db
+      .update(collections)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(and(eq(collections.id, id), eq(collections.userId, userId)))
+      .returning({ id: collections.id });
+    return updated && (await this.getCollection(updated.id));
+  }
+
+  async getZoningPresets(userId: string): Promise<ZoningPresetWithTags[]> {
+    const presets = await this.db
+      .select()
+      .from(zoningPresets)
+      .where(eq(zoningPresets.userId, userId))
+      .orderBy(zoningPresets.createdAt, zoningPresets.id);
+    return await this.withPresetTags(presets);
+  }
+
+  async createZoningPreset(
+    userId: string,
+    preset: InsertZoningPreset,
+    tagIds: string[]
+  ): Promise<ZoningPresetWithTags> {
+    const created = await this.db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(zoningPresets)
+        .values({ ...preset, userId })
+        .returning();
+      if (tagIds.length > 0) {
+        await tx
+          .insert(zoningPresetTags)
+          .values(tagIds.map((tagId) => ({ presetId: created!.id, tagId })))
+          .onConflictDoNothing();
+      }
+      return created!;
+    });
+
+    const [withTags] = await this.withPresetTags([created]);
+    return withTags!;
+  }
+
+  async updateZoningPreset(
+    id: string,
+    userId: string,
+    changes: UpdateZoningPreset,
+    tagIds?: string[]
+  ): Promise<ZoningPresetWithTags | undefined> {
+    const updated = await this.db.transaction(async (tx) => {
+      const owned = and(
+        eq(zoningPresets.id, id),
+        eq(zoningPresets.userId, userId)
+      );
+      const [preset] =
+        Object.keys(changes).length > 0
+          ? await tx.update(zoningPresets).set(changes).where(owned).returning()
+          : await tx.select().from(zoningPresets).where(owned);
+      if (!preset) return undefined;
+
+      if (tagIds) {
+        await tx
+          .delete(zoningPresetTags)
+          .where(eq(zoningPresetTags.presetId, id));
+        if (tagIds.length > 0) {
+          await tx
+            .insert(zoningPresetTags)
+            .values(tagIds.map((tagId) => ({ presetId: id, tagId })))
+            .onConflictDoNothing();
+        }
+      }
+      return preset;
+    });
+    if (!updated) return undefined;
+
+    const [withTags] = await this.withPresetTags([updated]);
+    return withTags;
+  }
+
+  async deleteZoningPreset(id: string, userId: string): Promise<boolean> {
+    const result = await this.db
+      .delete(zoningPresets)
+      .where(and(eq(zoningPresets.id, id), eq(zoningPresets.userId, userId)))
+      .returning({ id: zoningPresets.id });
+    return result.length > 0;
+  }
+
+  async setActiveZoningPreset(
+    userId: string,
+    presetId: string | null
+  ): Promise<boolean> {
+    return await this.db.transaction(async (tx) => {
+      if (presetId) {
+        const [preset] = await tx
+          .select({ id: zoningPresets.id })
+          .from(zoningPresets)
+          .where(
+            and(
+              eq(zoningPresets.id, presetId),
+              eq(zoningPresets.userId, userId)
+            )
+          );
+        if (!preset) return false;
+      }
+
+      // 先に外してから付ける（zoning_presets_one_active に引っかからないように）
+      await tx
+        .update(zoningPresets)
+        .set({ isActive: false })
+        .where(
+          and(
+            eq(zoningPresets.userId, userId),
+            eq(zoningPresets.isActive, true)
+          )
+        );
+      if (presetId) {
+        await tx
+          .update(zoningPresets)
+          .set({ isActive: true })
+          .where(eq(zoningPresets.id, presetId));
+      }
+      return true;
+    });
+  }
+
+  private async withPresetTags(
+    presets: ZoningPreset[]
+  ): Promise<ZoningPresetWithTags[]> {
+    if (presets.length === 0) return [];
+
+    const rows = await this.db
+      .select({ presetId: zoningPresetTags.presetId, tag: tags })
+      .from(zoningPresetTags)
+      .innerJoin(tags, eq(zoningPresetTags.tagId, tags.id))
+      .where(
+        inArray(
+          zoningPresetTags.presetId,
+          presets.map((preset) => preset.id)
+        )
+      )
+      .orderBy(tags.category, tags.name);
+
+    return presets.map((preset) => ({
+      ...preset,
+      tags: rows
+        .filter((row) => row.presetId === preset.id)
+        .map((row) => row.tag),
+    }));
+  }
+
   async validatePostTags(tagIds: string[]): Promise<boolean> {
     if (tagIds.length === 0) return false;
 
-    const tagResults = await db
+    const tagResults = await this.db
       .select()
       .from(tags)
       .where(inArray(tags.id, tagIds));
@@ -424,4 +2410,17 @@ export class DatabaseStorage implements IStorage {
   }
 }
 
-export const storage = new DatabaseStorage();
+export type StorageDriver = "database" | "memory";
+
+export const storageDriver: StorageDriver =
+  process.env.STORAGE_DRIVER === "memory" ? "memory" : "database";
+
+// STORAGE_DRIVER=memory でDBなしでも起動できる（ローカル開発・テスト用）
+export function createStorage(driver: StorageDriver = storageDriver): IStorage {
+  if (driver === "memory") {
+    return new MemoryStorage();
+  }
+  return new DatabaseStorage(getDb());
+}
+
+export const storage = createStorage();
@@ -0,0 +1,60 @@
+import type { TagCategory } from "./schema";
+import { normalizeSearchText } from "./search";
+import dotenv from "dotenv";
+dotenv.config({ path: ".env" });
+
+// initializeDefaultTags で用意する固定カテゴリ。管理者だけが追加できる
+export const curatedTagCategories: readonly TagCategory[] = [
+  "分類",
+  "角度",
+  "パーツ",
+];
+
+export const maxTagNameLength = 30;
+
+// 自由タグに使えない語（部分一致、かな・全半角は区別しない）。BANNED_TAG_WORDS で追加できる
+const bannedWords = [
+  "http://",
+  "https://",
+  "www.",
+  ...(process.env.BANNED_TAG_WORDS ?? "").split(","),
+]
+  .map(normalizeSearchText)
+  .filter(Boolean);
+
+export class TagNameError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TagNameError";
+  }
+}
+
+export function isCuratedCategory(category: TagCategory): boolean {
+  return curatedTagCategories.includes(category);
+}
+
+// 保存する表記にそろえる: NFKC → 前後の空白除去 → 連続する空白を 1 つに
+export function normalizeTagName(name: string): string {
+  return name.normalize("NFKC").trim().replace(/\s+/g, " ");
+}
+
+// 正規化した名前を返す。使えない名前なら TagNameError
+export function validateTagName(name: string, category: TagCategory): string {
+  const normalized = normalizeTagName(name);
+  if (!normalized) {
+    throw new TagNameError("Tag name is required");
+  }
+  if (normalized.length > maxTagNameLength) {
+    throw new TagNameError(
+      `Tag name must be at most ${maxTagNameLength} characters`
+    );
+  }
+
+  if (category === "自由") {
+    const searchable = normalizeSearchText(normalized);
+    if (bannedWords.some((word) => searchable.includes(word))) {
+      throw new TagNameError("Tag name contains a banned word");
+    }
+  }
+  return normalized;
+}
@@ -0,0 +1,258 @@
+import {
+  tagCategoryEnum,
+  type Tag,
+  type TagAlias,
+  type TagCategory,
+} from "./schema";
+import { normalizeSearchText } from "./search";
+
+// タグ検索クエリ言語
+//   犬|猫 角度:横 -牙      → (犬 OR 猫) AND 角度:横 AND NOT 牙
+//   (犬 OR 猫) AND NOT パーツ:牙
+// 空白 / AND は論理積、| / OR は論理和（AND より強く結合）、- / NOT は否定。
+// 「カテゴリ:名前」でカテゴリ内のタグに限定する。
+
+export type TagQueryNode =
+  | {
+      type: "tag";
+      name: string;
+      category?: TagCategory;
+      token: string;
+      position: number;
+    }
+  | { type: "and" | "or"; children: TagQueryNode[] }
+  | { type: "not"; child: TagQueryNode };
+
+// タグ名を ID に解決したもの。tagIds のいずれかを持つ投稿に一致する
+export type ResolvedTagQuery =
+  | { type: "tags"; tagIds: string[] }
+  | { type: "and" | "or"; children: ResolvedTagQuery[] }
+  | { type: "not"; child: ResolvedTagQuery };
+
+const maxTerms = 30;
+// 括弧と否定を入れ子にできる深さ（再帰で解析・変換するのでスタックを守る）
+const maxDepth = 10;
+
+export class TagQueryError extends Error {
+  constructor(
+    message: string,
+    readonly token: string,
+    readonly position: number
+  ) {
+    super(message);
+    this.name = "TagQueryError";
+  }
+}
+
+type Token = {
+  kind: "word" | "(" | ")" | "|" | "-" | "AND" | "OR" | "NOT";
+  text: string;
+  position: number;
+};
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /\s+|[()|]|-|[^\s()|]+/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(input))) {
+    const text = match[0];
+    const position = match.index;
+    if (/^\s+$/.test(text)) continue;
+
+    if (text === "(" || text === ")" || text === "|") {
+      tokens.push({ kind: text, text, position });
+    } else if (text === "-") {
+      tokens.push({ kind: "-", text, position });
+    } else if (text === "AND" || text === "OR" || text === "NOT") {
+      tokens.push({ kind: text, text, position });
+    } else {
+      tokens.push({ kind: "word", text, position });
+    }
+  }
+  return tokens;
+}
+
+export function parseTagQuery(input: string): TagQueryNode {
+  const tokens = tokenize(input);
+  let index = 0;
+  let terms = 0;
+  let depth = 0;
+
+  const peek = () => tokens[index];
+  const fail = (message: string, token?: Token): never => {
+    throw new TagQueryError(
+      message,
+      token?.text ?? "",
+      token?.position ?? input.length
+    );
+  };
+
+  // expr := orTerm ((AND)? orTerm)*
+  const parseExpr = (): TagQueryNode => {
+    const children = [parseOr()];
+    for (;;) {
+      const next = peek();
+      if (!next || next.kind === ")") break;
+      if (next.kind === "AND") index++;
+      children.push(parseOr());
+    }
+    return children.length === 1 ? children[0]! : { type: "and", children };
+  };
+
+  // orTerm := unary (("|" | OR) unary)*
+  const parseOr = (): TagQueryNode => {
+    const children = [parseUnary()];
+    while (peek()?.kind === "|" || peek()?.kind === "OR") {
+      index++;
+      children.push(parseUnary());
+    }
+    return children.length === 1 ? children[0]! : { type: "or", children };
+  };
+
+  // "(" と否定の中身を解析する。入れ子が深すぎるクエリはここで弾く
+  const nested = <T>(token: Token, parse: () => T): T => {
+    if (++depth > maxDepth) fail(`Too deeply nested (max ${maxDepth})`, token);
+    const node = parse();
+    depth--;
+    return node;
+  };
+
+  // unary := ("-" | NOT) unary | "(" expr ")" | word
+  const parseUnary = (): TagQueryNode => {
+    const token = peek();
+    if (!token) return fail("Unexpected end of query");
+
+    if (token.kind === "-" || token.kind === "NOT") {
+      index++;
+      return { type: "not", child: nested(token, parseUnary) };
+    }
+
+    if (token.kind === "(") {
+      index++;
+      const node = nested(token, parseExpr);
+      if (peek()?.kind !== ")") fail("Missing closing parenthesis", token);
+      index++;
+      return node;
+    }
+
+    if (token.kind !== "word") {
+      return fail(`Unexpected "${token.text}"`, token);
+    }
+
+    index++;
+    if (++terms > maxTerms) fail(`Too many terms (max ${maxTerms})`, token);
+    return parseTerm(token);
+  };
+
+  const parseTerm = (token: Token): TagQueryNode => {
+    // 全角コロンも区切りとして受け付ける
+    const separator = token.text.search(/[:：]/);
+    if (separator === -1) {
+      return {
+        type: "tag",
+        name: token.text,
+        token: token.text,
+        position: token.position,
+      };
+    }
+
+    const category = token.text.slice(0, separator);
+    const name = token.text.slice(separator + 1);
+    if (!tagCategoryEnum.enumValues.includes(category as TagCategory)) {
+      return fail(`Unknown category "${category}"`, token);
+    }
+    if (!name) return fail("Missing tag name", token);
+
+    return {
+      type: "tag",
+      name,
+      category: category as TagCategory,
+      token: token.text,
+      position: token.position,
+    };
+  };
+
+  if (tokens.length === 0) fail("Empty query");
+
+  const node = parseExpr();
+  if (index < tokens.length) fail(`Unexpected "${peek()!.text}"`, peek());
+  return node;
+}
+
+// タグ名（読み・別名を含む）を ID に解決する。カテゴリ指定がなければ全カテゴリの同名タグに一致させる
+export function resolveTagQuery(
+  node: TagQueryNode,
+  allTags: Tag[],
+  aliases: TagAlias[] = []
+): ResolvedTagQuery {
+  switch (node.type) {
+    case "tag": {
+      const name = normalizeSearchText(node.name);
+      const inCategory = (category: TagCategory) =>
+        !node.category || category === node.category;
+      const tagIds = new Set(
+        allTags
+          .filter(
+            (tag) =>
+              inCategory(tag.category) &&
+              [tag.name, tag.reading].some(
+                (value) => value && normalizeSearchText(value) === name
+              )
+          )
+          .map((tag) => tag.id)
+      );
+      for (const alias of aliases) {
+        if (
+          inCategory(alias.category) &&
+          normalizeSearchText(alias.name) === name
+        ) {
+          tagIds.add(alias.tagId);
+        }
+      }
+
+      if (tagIds.size === 0) {
+        throw new TagQueryError(
+          node.category
+            ? `Unknown tag "${node.name}" in category ${node.category}`
+            : `Unknown tag "${node.name}"`,
+          node.token,
+          node.position
+        );
+      }
+      return { type: "tags", tagIds: Array.from(tagIds) };
+    }
+    case "and":
+    case "or":
+      return {
+        type: node.type,
+        children: node.children.map((child) =>
+          resolveTagQuery(child, allTags, aliases)
+        ),
+      };
+    case "not":
+      return {
+        type: "not",
+        child: resolveTagQuery(node.child, allTags, aliases),
+      };
+  }
+}
+
+// 投稿のタグ ID 集合に対して評価する（MemoryStorage 用。DB では SQL に変換する）
+export function matchesTagQuery(
+  query: ResolvedTagQuery,
+  postTagIds: string[]
+): boolean {
+  switch (query.type) {
+    case "tags":
+      return query.tagIds.some((tagId) => postTagIds.includes(tagId));
+    case "and":
+      return query.children.every((child) =>
+        matchesTagQuery(child, postTagIds)
+      );
+    case "or":
+      return query.children.some((child) => matchesTagQuery(child, postTagIds));
+    case "not":
+      return !matchesTagQuery(query.child, postTagIds);
+  }
+}
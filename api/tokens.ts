@@ -0,0 +1,11 @@
+import { createHash, randomBytes } from "crypto";
+
+// メールの確認リンクやアクセストークンに使うランダムな文字列
+export function generateToken(prefix = ""): string {
+  return prefix + randomBytes(32).toString("base64url");
+}
+
+// トークンは SHA-256 だけを保存し、DB が漏れてもそのままでは使えないようにする
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
@@ -0,0 +1,119 @@
+import type { RequestHandler } from "express";
+import { z } from "zod";
+import { ValidationError } from "./errors";
+import type { TokenScope } from "./schema";
+
+// ルートごとの入出力の定義。validate() に渡すと入力を検証し、OpenAPI の生成（api/openapi.ts）にも使われる
+export type RouteSpec = {
+  summary: string;
+  params?: z.ZodType | undefined;
+  query?: z.ZodType | undefined;
+  body?: z.ZodType | undefined;
+  // multipart/form-data で受け取るファイルのフィールド名（multer が処理するので検証はしない）
+  files?: string[] | undefined;
+  // 成功時のレスポンス。ドキュメント用で、実行時には検証しない
+  response?: z.ZodType | undefined;
+  // 成功時のステータス（既定は 200）
+  status?: number | undefined;
+  // アクセストークンで呼ぶのに必要なスコープ。省略したルートはセッションでしか使えない
+  scope?: TokenScope | undefined;
+};
+
+const locations = ["params", "query", "body"] as const;
+
+type ValidationLocation = (typeof locations)[number];
+
+export type ValidationIssue = {
+  location: ValidationLocation;
+  // "tagIds.0" のようなドット区切り。値そのものの誤りなら ""
+  path: string;
+  message: string;
+  code: string;
+};
+
+export const validationIssueSchema = z.object({
+  location: z.enum(locations),
+  path: z.string(),
+  message: z.string(),
+  code: z.string(),
+});
+
+// 入力エラーはすべてこの形の 400 で返す
+export const validationErrorSchema = z
+  .object({
+    message: z.string(),
+    errors: z.array(validationIssueSchema),
+  })
+  .meta({ id: "ValidationError" });
+
+export const errorSchema = z
+  .object({ message: z.string() })
+  .meta({ id: "Error" });
+
+const specs = new WeakMap<Function, RouteSpec>();
+
+// params / query / body を検証し、変換後の値で置き換えてから次へ進む
+export function validate(spec: RouteSpec): RequestHandler {
+  const middleware: RequestHandler = (req, res, next) => {
+    const parsed: Partial<Record<ValidationLocation, unknown>> = {};
+    const errors: ValidationIssue[] = [];
+
+    for (const location of locations) {
+      const schema = spec[location];
+      if (!schema) continue;
+
+      const result = schema.safeParse(req[location] ?? {});
+      if (result.success) {
+        parsed[location] = result.data;
+      } else {
+        errors.push(
+          ...result.error.issues.map((issue) => ({
+            location,
+            path: issue.path.join("."),
+            message: issue.message,
+            code: issue.code,
+          }))
+        );
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationError("Invalid request", { errors });
+    }
+
+    if (spec.params) req.params = parsed.params as typeof req.params;
+    // Express 5 の req.query は getter なので、このリクエストだけ上書きする
+    if (spec.query) {
+      Object.defineProperty(req, "query", {
+        value: parsed.query,
+        writable: true,
+        configurable: true,
+        enumerable: true,
+      });
+    }
+    if (spec.body) req.body = parsed.body;
+    next();
+  };
+
+  specs.set(middleware, spec);
+  return middleware;
+}
+
+// validate() が作ったミドルウェアなら、その定義を返す
+export function routeSpecOf(handler: Function): RouteSpec | undefined {
+  return specs.get(handler);
+}
+
+// ?id=a&id=b / ?id=a のどちらも配列にする。空文字は未指定扱い
+export const idListQuery = z
+  .union([z.literal(""), z.uuid(), z.array(z.uuid())])
+  .optional()
+  .transform((value) =>
+    !value ? undefined : Array.isArray(value) ? value : [value]
+  );
+
+// uuid 主キーの行を指す :id。形式が違えば DB に問い合わせる前に 400 にする
+export const idParams = z.object({ id: z.uuid() });
+
+// users.id は varchar（uuid とは限らない）
+export const userIdParams = z.object({ id: z.string() });
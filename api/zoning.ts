@@ -0,0 +1,150 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { insertZoningPresetSchema, updateZoningPresetSchema } from "./schema";
+import { isAuthenticated } from "./auth";
+import { validate, idParams } from "./validation";
+import { ValidationError, ConflictError, NotFoundError } from "./errors";
+import { zoningPresetSchema, successSchema } from "./responses";
+
+const maxPresetTags = 100;
+
+const presetSchema = insertZoningPresetSchema.extend({
+  tagIds: z.array(z.uuid()).max(maxPresetTags).default([]),
+});
+
+const updatePresetSchema = updateZoningPresetSchema.extend({
+  tagIds: z.array(z.uuid()).max(maxPresetTags).optional(),
+});
+
+const activePresetSchema = z.object({
+  // null で無効化（user_exclude_tags に戻る）
+  presetId: z.uuid().nullable(),
+});
+
+// 存在しないタグ ID が混ざっていないか
+async function allTagsExist(tagIds: string[]): Promise<boolean> {
+  const found = await Promise.all(tagIds.map((id) => storage.getTag(id)));
+  return found.every(Boolean);
+}
+
+// 名前付きゾーニングプリセット。有効にできるのは 1 ユーザー 1 つまで
+export function registerZoningRoutes(app: Express) {
+  app.get(
+    "/api/zoning/presets",
+    isAuthenticated,
+    validate({
+      summary: "Your zoning presets",
+      response: z.array(zoningPresetSchema),
+    }),
+    async (req: any, res) => {
+      res.json(await storage.getZoningPresets(req.user.claims.sub));
+    }
+  );
+
+  app.post(
+    "/api/zoning/presets",
+    isAuthenticated,
+    validate({
+      summary: "Create a zoning preset",
+      body: presetSchema,
+      response: zoningPresetSchema,
+      status: 201,
+    }),
+    async (req: any, res) => {
+      const userId = req.user.claims.sub;
+      const { tagIds, ...preset } = req.body;
+
+      if (!(await allTagsExist(tagIds))) {
+        throw new ValidationError("Invalid tagIds");
+      }
+      const existing = await storage.getZoningPresets(userId);
+      if (existing.some((p) => p.name === preset.name)) {
+        throw new ConflictError("A preset with this name already exists");
+      }
+
+      res
+        .status(201)
+        .json(await storage.createZoningPreset(userId, preset, tagIds));
+    }
+  );
+
+  app.patch(
+    "/api/zoning/presets/:id",
+    isAuthenticated,
+    validate({
+      summary: "Rename a zoning preset or change its mode or tags",
+      params: idParams,
+      body: updatePresetSchema,
+      response: zoningPresetSchema,
+    }),
+    async (req: any, res) => {
+      const { id } = req.params;
+      const userId = req.user.claims.sub;
+      const { tagIds, ...changes } = req.body;
+
+      if (tagIds && !(await allTagsExist(tagIds))) {
+        throw new ValidationError("Invalid tagIds");
+      }
+      if (changes.name !== undefined) {
+        const existing = await storage.getZoningPresets(userId);
+        if (existing.some((p) => p.name === changes.name && p.id !== id)) {
+          throw new ConflictError("A preset with this name already exists");
+        }
+      }
+
+      const preset = await storage.updateZoningPreset(
+        id,
+        userId,
+        changes,
+        tagIds
+      );
+      if (!preset) {
+        throw new NotFoundError("Preset not found");
+      }
+      res.json(preset);
+    }
+  );
+
+  app.delete(
+    "/api/zoning/presets/:id",
+    isAuthenticated,
+    validate({
+      summary: "Delete a zoning preset",
+      params: idParams,
+      response: successSchema,
+    }),
+    async (req: any, res) => {
+      const deleted = await storage.deleteZoningPreset(
+        req.params.id,
+        req.user.claims.sub
+      );
+      if (!deleted) {
+        throw new NotFoundError("Preset not found");
+      }
+      res.json({ success: true });
+    }
+  );
+
+  app.put(
+    "/api/zoning/active",
+    isAuthenticated,
+    validate({
+      summary: "Choose the active zoning preset",
+      body: activePresetSchema,
+      response: activePresetSchema,
+    }),
+    async (req: any, res) => {
+      const { presetId } = req.body;
+
+      const updated = await storage.setActiveZoningPreset(
+        req.user.claims.sub,
+        presetId
+      );
+      if (!updated) {
+        throw new NotFoundError("Preset not found");
+      }
+      res.json({ presetId });
+    }
+  );
+}